@@ -1,5 +1,16 @@
 // Import the Conversation class
 import { Conversation } from './Conversation';
+import { CaptivateChatOptions, CaptivateEndpoints, CaptivateMode, ResolvedEndpoints, buildSocketUrl, getEndpointsKey, resolveEndpoints } from './endpoints';
+import { HttpTransport } from './transport';
+import { SocketEventDispatcher, SocketEventMessage } from './SocketEventDispatcher';
+import { ConnectionState, ConnectionStateListener, DEFAULT_RECONNECT_OPTIONS, ReconnectOptions, getReconnectDelay } from './connection';
+import { ConnectionHeartbeat, LatencyListener } from './heartbeat';
+import { OutboxOptions } from './outbox';
+import { CacheOptions, ChatCache } from './cache';
+import { MemoryStorageAdapter, StorageAdapter, hashStorageKey } from './storage';
+import { ChannelMessage, ConversationStatus, SerializedConversation } from './types';
+import { ProtocolErrorListener, ProtocolValidator } from './validation';
+import { CaptivateConnectionError, CaptivateServerError, CaptivateTimeoutError, CaptivateValidationError } from './errors';
 
 // Determine the WebSocket implementation based on the environment (browser, Node.js, or React Native)
 let WebSocketImpl: typeof WebSocket;
@@ -17,12 +28,102 @@ else {
   try {
     WebSocketImpl = require('ws');
   } catch (error) {
-    throw new Error('WebSocket not available in this environment and ws module could not be loaded');
+    throw new CaptivateConnectionError('WebSocket not available in this environment and ws module could not be loaded', error);
   }
 }
 
 // Removed unused `waitForSocketOpen` function to improve maintainability.
 
+/**
+ * Pagination data returned by get_user_conversations_v2.
+ */
+export interface UserConversationsPagination {
+  hasNextPage: boolean;
+  hasPrevPage: boolean;
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+}
+
+/**
+ * Result of getUserConversations().
+ */
+export interface UserConversationsResult {
+  conversations: Conversation[];
+  pagination?: UserConversationsPagination;
+}
+
+export type UserConversationsListener = (result: UserConversationsResult) => void;
+
+/**
+ * Session persisted by resumeSession(): the user and the active conversations of one API instance.
+ */
+export interface SessionState {
+  userId: string | null;
+  conversations: SerializedConversation[];
+  /**
+   * Time the session was saved, in epoch milliseconds.
+   */
+  savedAt: number;
+}
+
+/**
+ * Options accepted by resumeSession().
+ */
+export interface ResumeSessionOptions {
+  /**
+   * Storage key of the session. Defaults to `captivate-session:<hash of the API key>`.
+   */
+  key?: string;
+  /**
+   * Invoked for each restored conversation before missed messages are replayed, to register its listeners.
+   */
+  setup?: (conversation: Conversation) => void;
+}
+
+/**
+ * Result of resumeSession().
+ */
+export interface ResumedSession {
+  userId: string | null;
+  /**
+   * The restored conversations, in the order they were opened.
+   */
+  conversations: Conversation[];
+}
+
+/**
+ * Delay used to batch session writes, in milliseconds.
+ */
+const SESSION_SAVE_DELAY_MS = 250;
+
+/**
+ * Options accepted by getUserConversations() and fetchUserConversations().
+ */
+export interface UserConversationsOptions {
+  userId: string;
+  filter?: object;
+  /**
+   * Limits the results to conversations with that lifecycle status (or one of them); sent as `filter.status`.
+   */
+  status?: ConversationStatus | ConversationStatus[];
+  search?: object;
+  pagination?: { page?: string | number; limit?: string | number };
+  /**
+   * Includes the conversations of these API keys in the results.
+   */
+  apiKeys?: string[];
+}
+
+/**
+ * Validated user conversations response, as cached and as returned by fetchUserConversations().
+ */
+export interface UserConversationsPayload {
+  conversations: { conversation_id: string; metadata?: object; apiKey?: string }[];
+  pagination?: UserConversationsPagination;
+}
+
 // Proxy guard function for automatic WebSocket state checking and reconnection
 function withSocketGuard<T extends object>(instance: T): T {
   return new Proxy(instance, {
@@ -30,7 +131,17 @@ function withSocketGuard<T extends object>(instance: T): T {
       const orig = target[prop as keyof T];
       if (
         typeof orig === 'function' &&
-        !['isSocketActive', 'connect', 'reconnect', 'getSocket', 'getConversationId'].includes(prop as string)
+        ![
+          'isSocketActive', 'connect', 'reconnect', 'dispose', 'getSocket', 'getDispatcher', 'getConversationId',
+          'getEndpoints', 'getConnectionState', 'onConnectionStateChange', 'getOrCreateConversation', 'getLatency', 'onLatency', 'onProtocolError',
+          // Listener registration does not need an open socket and must return unsubscribe functions synchronously
+          'onMessage', 'onMessageStream', 'onActionReceived', 'onConversationUpdate', 'onError', 'on', 'once', 'off', 'removeAllListeners', 'messages',
+          'getOutbox', 'onOutboxChange', 'onMessageConfirmed', 'onMessageStatus', 'onTyping', 'onAgentPresence',
+          'onHandoffStateChange', 'getHandoffState', 'getStatus',
+          'transcriptPages', 'onTranscriptUpdate', 'onUserConversationsUpdate', 'serialize', 'restore', 'onStateChange',
+          // Only touch the session store, so logging out works while offline
+          'saveSession', 'clearSession'
+        ].includes(prop as string)
       ) {
         return async function (...args: any[]) {
           if (typeof (target as any)['isSocketActive'] === 'function' && !(target as any)['isSocketActive']()) {
@@ -39,16 +150,17 @@ function withSocketGuard<T extends object>(instance: T): T {
               if (typeof (target as any)['reconnect'] === 'function') {
                 await (target as any)['reconnect']();
               } else {
-                throw new Error('Reconnect method not available');
+                throw new CaptivateConnectionError('Reconnect method not available');
               }
             } catch (error: any) {
-              throw new Error(`Socket reconnection failed. Cannot execute ${String(prop)}: ${error.message}`);
+              throw new CaptivateConnectionError(`Socket reconnection failed. Cannot execute ${String(prop)}: ${error.message}`, error);
             }
           }
           return (orig as Function).apply(target, args);
         };
       }
-      return orig;
+      // Bind unguarded methods to the target so their internal calls bypass the guard
+      return typeof orig === 'function' ? (orig as Function).bind(target) : orig;
     }
   });
 }
@@ -92,15 +204,23 @@ export class CaptivateChatAPI {
   /**
    * Generates a unique instance key for the registry.
    * @param apiKey - The API key.
-   * @param mode - The mode ('prod' or 'dev').
+   * @param modeOrOptions - The mode ('prod' or 'dev') or a CaptivateChatOptions object.
    * @returns A composite key string.
    */
-  private static getInstanceKey(apiKey: string, mode: 'prod' | 'dev'): string {
-    return `${apiKey}-${mode}`;
+  private static getInstanceKey(apiKey: string, modeOrOptions: CaptivateMode | CaptivateChatOptions): string {
+    return `${apiKey}-${getEndpointsKey(modeOrOptions)}`;
   }
 
   private apiKey!: string;
-  private mode!: 'prod' | 'dev';
+  private instanceKey!: string;
+  /**
+   * Endpoints (WebSocket, channel HTTP and file service) used by this instance and its conversations.
+   */
+  private endpoints!: ResolvedEndpoints;
+  /**
+   * Shared HTTP transport (timeouts, retries, typed errors) used by this instance and its conversations.
+   */
+  private transport!: HttpTransport;
   /**
    * WebSocket URL for real-time communication.
    */
@@ -109,23 +229,84 @@ export class CaptivateChatAPI {
    * WebSocket connection for receiving real-time messages.
    */
   private socket!: InstanceType<typeof WebSocketImpl> | null;
+  /**
+   * Routes every WebSocket frame to the conversation it belongs to.
+   */
+  private dispatcher!: SocketEventDispatcher;
+  /**
+   * Live conversations of this instance. They are re-bound to the new socket after every reconnect.
+   */
   private conversations!: Map<string, Conversation>;
   /**
    * Socket ID received from socket_connected event.
    */
   private socketId: string | null = null;
   /**
-   * WebSocket reconnection attempts counter.
+   * Backoff and limit settings for automatic reconnection.
+   */
+  private reconnectOptions!: Required<ReconnectOptions>;
+  /**
+   * The reconnection cycle in progress, shared by every caller of reconnect().
+   */
+  private reconnectPromise: Promise<void> | null = null;
+  /**
+   * Cancels the pending backoff delay of the reconnection cycle, if any.
+   */
+  private cancelReconnectDelay: (() => void) | null = null;
+  /**
+   * Current WebSocket connection state.
+   */
+  private connectionState: ConnectionState = 'disconnected';
+  private connectionStateListeners!: Set<ConnectionStateListener>;
+  /**
+   * Set by dispose(); stops any further connection attempts.
+   */
+  private disposed: boolean = false;
+  /**
+   * Keepalive of the current socket, or null when the heartbeat is disabled.
+   */
+  private heartbeat!: ConnectionHeartbeat | null;
+  /**
+   * Round-trip time of the last answered heartbeat ping, in milliseconds.
+   */
+  private latency: number | null = null;
+  private latencyListeners!: Set<LatencyListener>;
+  /**
+   * Checks WebSocket frames and HTTP responses against the SDK's schemas.
+   */
+  private validator!: ProtocolValidator;
+  /**
+   * Outbox settings applied to every conversation, or null when the outbox is disabled.
+   */
+  private outboxOptions!: OutboxOptions | null;
+  /**
+   * Local cache of conversation lists and transcripts, or null when caching is disabled.
+   */
+  private cache!: ChatCache | null;
+  /**
+   * Cache of conversation transcripts: the same as `cache` when `persistTranscripts` is set, otherwise kept in memory.
+   */
+  private transcriptCache!: ChatCache | null;
+  private userConversationsListeners!: Set<UserConversationsListener>;
+  /**
+   * Cache keys of the conversation lists being revalidated in the background.
+   */
+  private userConversationsRevalidations!: Set<string>;
+  /**
+   * Storage the session is persisted to, set by resumeSession().
    */
-  private reconnectAttempts: number = 0;
+  private sessionStore: StorageAdapter | null = null;
+  private sessionKey: string | null = null;
   /**
-   * Maximum number of reconnection attempts.
+   * The user of the session: the last user a conversation was created or listed for.
    */
-  private maxReconnectAttempts: number = 5;
+  private sessionUserId: string | null = null;
   /**
-   * Delay between reconnection attempts.
+   * Conversations opened with createConversation(), getConversation() or resumeSession(), keyed by ID,
+   * with the function that stops tracking their state.
    */
-  private reconnectDelay: number = 3000;
+  private sessionConversations!: Map<string, () => void>;
+  private sessionSaveTimer: ReturnType<typeof setTimeout> | null = null;
 
   /**
    * Sets the debug mode for CaptivateChatAPI logging.
@@ -147,11 +328,11 @@ export class CaptivateChatAPI {
    * Creates an instance of CaptivateChatAPI.
    * Enforces singleton pattern: returns existing instance if one exists for the given API key and mode.
    * @param apiKey - The API key for authentication.
-   * @param mode - The mode of operation ('prod' for production or 'dev' for development).
+   * @param modeOrOptions - The mode of operation ('prod' or 'dev'), or an options object with a named environment and/or custom endpoints.
    * @returns Either a new instance or the existing singleton instance for this API key/mode combination.
    */
-  constructor(apiKey: string, mode: 'prod' | 'dev' = 'prod') {
-    const instanceKey = CaptivateChatAPI.getInstanceKey(apiKey, mode);
+  constructor(apiKey: string, modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod') {
+    const instanceKey = CaptivateChatAPI.getInstanceKey(apiKey, modeOrOptions);
 
     // Check if instance already exists (singleton enforcement)
     const existingInstance = CaptivateChatAPI.instances.get(instanceKey);
@@ -162,15 +343,38 @@ export class CaptivateChatAPI {
 
     // Initialize new instance
     this.apiKey = apiKey;
-    this.mode = mode;
-
-    // Legacy WebSocket URL (deprecated)
-    this.url =
-      this.mode === 'prod'
-        ? `wss://channel.wss.captivatechat.ai/dev?apiKey=${apiKey}`
-        : `wss://channel-dev.wss.captivatechat.ai/dev?apiKey=${apiKey}`;
+    this.instanceKey = instanceKey;
+    this.endpoints = resolveEndpoints(modeOrOptions);
+    this.url = buildSocketUrl(this.endpoints.wsUrl, apiKey);
+    this.transport = new HttpTransport(typeof modeOrOptions === 'string' ? {} : modeOrOptions.http);
+    this.reconnectOptions = {
+      ...DEFAULT_RECONNECT_OPTIONS,
+      ...(typeof modeOrOptions === 'string' ? {} : modeOrOptions.reconnect)
+    };
+    this.connectionStateListeners = new Set();
+    this.latencyListeners = new Set();
+    const heartbeatOptions = typeof modeOrOptions === 'string' ? undefined : modeOrOptions.heartbeat;
+    this.heartbeat = !heartbeatOptions ? null : new ConnectionHeartbeat(
+      heartbeatOptions === true ? {} : heartbeatOptions,
+      (data) => this.socket?.send(data),
+      () => this.handleDeadConnection(),
+      (latency) => this.setLatency(latency)
+    );
 
     this.socket = null;
+    this.validator = new ProtocolValidator(typeof modeOrOptions === 'string' ? {} : modeOrOptions.validation);
+    this.dispatcher = new SocketEventDispatcher(this.validator);
+    const outboxOptions = typeof modeOrOptions === 'string' ? undefined : modeOrOptions.outbox;
+    this.outboxOptions = outboxOptions ? (outboxOptions === true ? {} : outboxOptions) : null;
+    const cacheOptions = typeof modeOrOptions === 'string' ? undefined : modeOrOptions.cache;
+    const cacheSettings: CacheOptions | null = cacheOptions ? (cacheOptions === true ? {} : cacheOptions) : null;
+    this.cache = cacheSettings ? new ChatCache(cacheSettings) : null;
+    this.transcriptCache = cacheSettings && !cacheSettings.persistTranscripts
+      ? new ChatCache({ ...cacheSettings, storage: new MemoryStorageAdapter() })
+      : this.cache;
+    this.userConversationsListeners = new Set();
+    this.userConversationsRevalidations = new Set();
+    this.sessionConversations = new Map();
     this.conversations = new Map();
 
     // Store in registry
@@ -185,68 +389,16 @@ export class CaptivateChatAPI {
    * @param message - The message object to send.
    * @returns A promise that resolves to the response data.
    */
-  private async _send(message: object): Promise<any> {
+  private async _send(message: ChannelMessage): Promise<any> {
     if (!this.apiKey) {
-      throw new Error('API key is required for HTTP communication');
+      throw new CaptivateValidationError('API key is required for HTTP communication');
     }
 
-    const baseUrl = this.mode === 'prod'
-      ? 'https://channel.prod.captivat.io'
-      : 'https://channel.dev.captivat.io';
-    
-    const url = `${baseUrl}/api/custom-channel/sockets/message`;
-
-    // Add socket_id to the event if available
-    const messageWithSocketId = {
-      ...message,
-      event: {
-        ...(message as any).event,
-        socket_id: this.socketId
-      }
-    };
-
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'x-api-key': this.apiKey,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify(messageWithSocketId)
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP request failed: ${response.status} ${response.statusText}`);
-      }
-
-      // Check if response is JSON or plain text
-      const contentType = response.headers.get('content-type');
-      let responseData;
-      
-      if (contentType && contentType.includes('application/json')) {
-        responseData = await response.json();
-      } else {
-        // Handle plain text response (like "OK")
-        const textResponse = await response.text();
-        captivateLogger.log('Server returned plain text:', textResponse);
-        // Return a mock response structure for plain text responses
-        responseData = {
-          status: 'success',
-          message: textResponse,
-          event: {
-            event_payload: {
-              conversation_id: null // Will be handled by WebSocket
-            }
-          }
-        };
-      }
-      
-      captivateLogger.log('Message received from server via HTTP:', responseData);
-      return responseData;
+      return await this.transport.sendChannelMessage(this.endpoints.httpBaseUrl, this.apiKey, this.socketId, message);
     } catch (error) {
-      console.error('HTTP request failed:', error);
-      throw new Error(`Failed to send message via HTTP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      captivateLogger.error('HTTP request failed:', error);
+      throw error;
     }
   }
 
@@ -255,45 +407,81 @@ export class CaptivateChatAPI {
    * @returns A promise that resolves once the connection is successfully established.
    */
   public async connect(): Promise<void> {
+    if (this.disposed) {
+      throw new CaptivateConnectionError('Cannot connect: instance has been disposed');
+    }
+
     return new Promise((resolve, reject) => {
       try {
-        this.socket = new WebSocketImpl(this.url);
+        // Detach and close the previous socket so its close event does not trigger another reconnection
+        this.closeSocket(1000, 'Replaced by new connection');
+
+        if (this.connectionState !== 'reconnecting') {
+          this.setConnectionState('connecting');
+        }
+
+        const socket = new WebSocketImpl(this.url);
+        this.socket = socket;
+        this.dispatcher.attach(socket, (message) => this.heartbeat?.recordActivity(message));
+        let settled = false;
+
+        const fail = (error: Error) => {
+          unsubscribe();
+          clearTimeout(timeoutId);
+          if (!settled) {
+            settled = true;
+            if (this.socket === socket) {
+              this.closeSocket(1000, 'Connection attempt failed');
+            }
+            if (this.connectionState === 'connecting') {
+              this.setConnectionState('disconnected');
+            }
+            reject(error);
+          }
+        };
 
         const timeoutId = setTimeout(() => {
-          reject(new Error('Connection timeout: socket_connected not received'));
+          fail(new CaptivateTimeoutError('Connection timeout: socket_connected not received', 10000));
         }, 10000);
 
-        this.socket.onopen = () => {
+        socket.onopen = () => {
           // WebSocket connected, waiting for API confirmation
         };
 
-        this.socket.onmessage = (event: MessageEvent) => {
-          try {
-            const message = JSON.parse(event.data.toString());
-            if (message.event?.event_type === 'socket_connected') {
-              // Capture socket_id from the event payload
-              this.socketId = message.event.event_payload?.socket_id || null;
-              captivateLogger.log('Socket connected with ID:', this.socketId);
-              // API Successfully Connected
-              clearTimeout(timeoutId);
-              resolve();
-            }
-          } catch (err) {
-            console.error('Error parsing message:', err);
+        const unsubscribe = this.dispatcher.onFallback((message: SocketEventMessage) => {
+          if (message.event?.event_type === 'socket_connected') {
+            // Capture socket_id from the event payload
+            this.socketId = message.event.event_payload?.socket_id || null;
+            captivateLogger.log('Socket connected with ID:', this.socketId);
+            // API Successfully Connected
+            unsubscribe();
+            clearTimeout(timeoutId);
+            settled = true;
+            this.rebindConversations();
+            this.heartbeat?.start();
+            this.setConnectionState('connected');
+            resolve();
           }
-        };
+        });
 
-        this.socket.onerror = (event: any) => {
+        socket.onerror = (event: any) => {
           console.error('WebSocket Error:', event.message || event);
-          clearTimeout(timeoutId);
-          reject(new Error(event.message || 'WebSocket error'));
+          fail(new CaptivateConnectionError(event.message || 'WebSocket error', event));
         };
 
-        this.socket.onclose = (event) => {
-          // WebSocket connection closed
-          if (event.code !== 1000) { 
-            // Attempting to reconnect
-            setTimeout(() => this.connect(), 3000); // Reconnect after 3 seconds
+        socket.onclose = (event) => {
+          if (!settled) {
+            fail(new CaptivateConnectionError(`WebSocket closed before socket_connected (code ${event.code})`));
+            return;
+          }
+          // WebSocket connection closed after being established
+          if (event.code === 1000 || this.disposed) {
+            this.setConnectionState('disconnected');
+          } else {
+            captivateLogger.warn(`WebSocket closed unexpectedly (code ${event.code}), reconnecting`);
+            this.reconnect().catch((error) => {
+              captivateLogger.error('Automatic reconnection failed:', error);
+            });
           }
         };
       } catch (error) {
@@ -317,6 +505,7 @@ export class CaptivateChatAPI {
     autoConversationStart: 'bot-first' | 'user-first' = 'bot-first',
     privateMetadata: object = {}
   ): Promise<Conversation> {
+    this.sessionUserId = userId;
     return new Promise(async (resolve, reject) => {
       try {
         // Merge privateMetadata into metadata under the 'private' key if provided
@@ -326,43 +515,40 @@ export class CaptivateChatAPI {
         }
         
         // Listen for conversation_start_success from WebSocket to get conversation_id
-        // Set up listener BEFORE sending the HTTP request to avoid race conditions
-        const onMessage = (event: MessageEvent) => {
-          try {
-            captivateLogger.log('messagereceived:', event.data.toString());
-            const message = JSON.parse(event.data.toString());
-            if (message.event?.event_type === 'conversation_start_success') {
-              const conversationId = message.event.event_payload?.conversation_id;
-              if (!conversationId) {
-                this.socket?.removeEventListener('message', onMessage);
-                reject(new Error('No conversation_id received in WebSocket response'));
-                return;
-              }
-              
-              this.socket?.removeEventListener('message', onMessage);
-              
-              const conversation = withSocketGuard(new Conversation(conversationId, this.socket!, {}, this.apiKey, this.mode, this.socketId));
-              this.conversations.set(conversationId, conversation);
-              
-              if (autoConversationStart === 'bot-first') {
-                conversation.sendMessage({ type: 'text', text: '' })
-                  .then(() => resolve(conversation))
-                  .catch(reject);
-              } else {
-                resolve(conversation);
-              }
+        // Set up listener BEFORE sending the HTTP request to avoid race conditions.
+        // The new conversation is not registered yet, so the event arrives on the fallback channel.
+        const unsubscribe = this.dispatcher.onFallback((message: SocketEventMessage) => {
+          if (message.event?.event_type === 'conversation_start_success') {
+            unsubscribe();
+            clearTimeout(timeoutId);
+
+            const conversationId = message.event.event_payload?.conversation_id;
+            if (!conversationId) {
+              reject(new CaptivateServerError('No conversation_id received in WebSocket response', {
+                status: 0,
+                body: message.event.event_payload,
+                eventType: 'conversation_start_success'
+              }));
+              return;
+            }
+
+            const conversation = this.getOrCreateConversation(conversationId);
+            this.trackSessionConversation(conversation);
+
+            if (autoConversationStart === 'bot-first') {
+              conversation.sendMessage({ type: 'text', text: '' })
+                .then(() => resolve(conversation))
+                .catch(reject);
+            } else {
+              resolve(conversation);
             }
-          } catch (err) {
-            console.error('Error processing message:', err);
           }
-        };
+        });
 
-        this.socket?.addEventListener('message', onMessage);
-        
         // Timeout if no WebSocket confirmation received
-        setTimeout(() => {
-          this.socket?.removeEventListener('message', onMessage);
-          reject(new Error('Timeout: No conversation_start_success received from WebSocket'));
+        const timeoutId = setTimeout(() => {
+          unsubscribe();
+          reject(new CaptivateTimeoutError('Timeout: No conversation_start_success received from WebSocket', 10000));
         }, 10000);
         
         // Send HTTP request AFTER setting up the listener
@@ -396,125 +582,319 @@ export class CaptivateChatAPI {
       // If conversation is not found, check if socket is initialized
       if (this.socket !== null) {
         // If socket is initialized, create the conversation
-        conversation = withSocketGuard(new Conversation(conversationId, this.socket,{},this.apiKey, this.mode, this.socketId));
-        this.conversations.set(conversationId, conversation);
+        conversation = this.getOrCreateConversation(conversationId);
       } else {
         // Handle the case where socket is not initialized
         console.error('Socket is not initialized');
-        throw new Error('WebSocket connection not established');
+        throw new CaptivateConnectionError('WebSocket connection not established');
       }
     }
 
-    conversation?.restartListeners();
+    conversation.restartListeners();
+    this.trackSessionConversation(conversation);
+    return conversation;
+  }
+
+  /**
+   * Restores the session saved in a store: the user ID and the conversations that were open, with their metadata,
+   * lifecycle status, handoff state and last seen message. Each restored conversation is passed to `options.setup`
+   * to register its listeners, then receives the messages sent since its last seen message (flagged as replayed).
+   * From then on the session is saved to the store whenever it changes, until clearSession() is called.
+   * @param store - Where the session is persisted, e.g. `new LocalStorageAdapter()` or React Native's `AsyncStorage`.
+   * @param options - Storage key and listener setup.
+   * @returns A promise that resolves to the restored user ID and conversations (empty for a new session).
+   */
+  public async resumeSession(store: StorageAdapter, options: ResumeSessionOptions = {}): Promise<ResumedSession> {
+    this.sessionStore = store;
+    this.sessionKey = options.key || `captivate-session:${hashStorageKey(this.apiKey)}`;
+
+    let state: SessionState | null = null;
+    try {
+      const stored = await store.getItem(this.sessionKey);
+      state = stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      captivateLogger.error('Failed to load session:', error);
+    }
+
+    this.sessionUserId = state?.userId ?? this.sessionUserId;
+    const conversations = (state?.conversations || []).map((serialized) => {
+      const conversation = this.getOrCreateConversation(serialized.conversationId, serialized.metadata);
+      conversation.restore(serialized);
+      return conversation;
+    });
+    conversations.forEach((conversation) => {
+      this.trackSessionConversation(conversation);
+      options.setup?.(conversation);
+    });
+    await Promise.all(conversations.map((conversation) => conversation.catchUp()));
+    await this.saveSession();
+
+    captivateLogger.log(`Resumed session with ${conversations.length} conversation(s)`);
+    return { userId: this.sessionUserId, conversations };
+  }
+
+  /**
+   * Writes the session to the store passed to resumeSession() now, instead of waiting for the next batched write.
+   * Does nothing if no session store is set.
+   */
+  public async saveSession(): Promise<void> {
+    if (this.sessionSaveTimer) {
+      clearTimeout(this.sessionSaveTimer);
+      this.sessionSaveTimer = null;
+    }
+    if (!this.sessionStore || !this.sessionKey) {
+      return;
+    }
+    const state: SessionState = {
+      userId: this.sessionUserId,
+      conversations: Array.from(this.sessionConversations.keys())
+        .map((conversationId) => this.conversations.get(conversationId)?.serialize())
+        .filter((serialized): serialized is SerializedConversation => !!serialized),
+      savedAt: Date.now(),
+    };
+    try {
+      await this.sessionStore.setItem(this.sessionKey, JSON.stringify(state));
+    } catch (error) {
+      captivateLogger.error('Failed to save session:', error);
+    }
+  }
+
+  /**
+   * Forgets the session, e.g. on logout: removes it from the store and stops tracking the open conversations.
+   * New conversations are still saved to the store.
+   */
+  public async clearSession(): Promise<void> {
+    if (this.sessionSaveTimer) {
+      clearTimeout(this.sessionSaveTimer);
+      this.sessionSaveTimer = null;
+    }
+    this.sessionConversations.forEach((stopTracking) => stopTracking());
+    this.sessionConversations.clear();
+    this.sessionUserId = null;
+    if (this.sessionStore && this.sessionKey) {
+      await this.sessionStore.removeItem(this.sessionKey);
+    }
+  }
+
+  /**
+   * Adds a conversation to the session and saves the session whenever the conversation's state changes.
+   */
+  private trackSessionConversation(conversation: Conversation): void {
+    const conversationId = conversation.getConversationId();
+    if (this.sessionConversations.has(conversationId)) {
+      return;
+    }
+    this.sessionConversations.set(conversationId, conversation.onStateChange(() => this.scheduleSessionSave()));
+    this.scheduleSessionSave();
+  }
+
+  private scheduleSessionSave(): void {
+    if (!this.sessionStore || this.sessionSaveTimer) {
+      return;
+    }
+    this.sessionSaveTimer = setTimeout(() => {
+      this.sessionSaveTimer = null;
+      this.saveSession();
+    }, SESSION_SAVE_DELAY_MS);
+  }
+
+  /**
+   * Returns the live Conversation for an ID, creating, guarding and tracking it if needed.
+   * Tracked conversations receive their WebSocket events through this instance's dispatcher
+   * and are re-bound to the new socket and socket ID after every reconnect.
+   * @param conversationId - The unique ID of the conversation.
+   * @param metadata - Metadata for a newly created conversation.
+   * @param apiKey - API key for a newly created conversation (defaults to this instance's key).
+   * @returns The tracked Conversation instance.
+   */
+  public getOrCreateConversation(conversationId: string, metadata: object = {}, apiKey: string = this.apiKey): Conversation {
+    let conversation = this.conversations.get(conversationId);
+    if (!conversation) {
+      conversation = withSocketGuard(
+        new Conversation(conversationId, this.dispatcher, metadata, apiKey, this.endpoints, this.socketId, this.transport)
+      );
+      if (this.outboxOptions) {
+        conversation.enableOutbox(this.outboxOptions);
+      }
+      if (this.transcriptCache) {
+        conversation.enableCache(this.transcriptCache);
+      }
+      this.conversations.set(conversationId, conversation);
+    }
     return conversation;
   }
 
   /**
-   * Retrieves user conversations. Uses v2 if filter, search, or pagination is provided, otherwise uses v1.
+   * Re-attaches all live conversations to the current socket and socket ID.
+   */
+  private rebindConversations(): void {
+    this.conversations.forEach((conversation) => {
+      conversation.rebind(this.socketId);
+    });
+  }
+
+  /**
+   * Retrieves user conversations. Uses v2 if filter, status, search, or pagination is provided, otherwise uses v1.
    * Supports both legacy API (userId string) and new API (options object) for backward compatibility.
-   * @param userIdOrOptions - Either a userId string (legacy) or options object containing userId and optional filter, search, and pagination.
+   * When the cache is enabled, a cached result for the same options is returned instantly and revalidated in the background
+   * once it is older than the cache's stale time; onUserConversationsUpdate listeners receive the revalidated result.
+   * @param userIdOrOptions - Either a userId string (legacy) or options object containing userId and optional filter, status, search, and pagination.
+   * `status` limits the results to conversations with that lifecycle status (or one of them) and is sent as `filter.status`.
    * @returns A promise resolving to an object with a list of Conversation instances and optional pagination data.
    */
-  public async getUserConversations(
-    userIdOrOptions: string | {
-      userId: string;
-      filter?: object;
-      search?: object;
-      pagination?: { page?: string | number; limit?: string | number };
-      apiKeys?: string[]; // Restore multi-api-key support
-    }
-  ): Promise<{ conversations: Conversation[]; pagination?: {
-    hasNextPage: boolean;
-    hasPrevPage: boolean;
-    page: number;
-    pageSize: number;
-    total: number;
-    totalPages: number;
-  } }> {
+  public async getUserConversations(userIdOrOptions: string | UserConversationsOptions): Promise<UserConversationsResult> {
     // Handle backward compatibility - if string is passed, treat as userId
     const options = typeof userIdOrOptions === 'string' 
       ? { userId: userIdOrOptions }
       : userIdOrOptions;
 
-    const { userId, filter = {}, search = {}, pagination = {}, apiKeys } = options;
-    const conversations: Conversation[] = [];
-    let paginationData: {
-      hasNextPage: boolean;
-      hasPrevPage: boolean;
-      page: number;
-      pageSize: number;
-      total: number;
-      totalPages: number;
-    } | undefined = undefined;
-    const useV2 = (filter && Object.keys(filter).length > 0) || (search && Object.keys(search).length > 0) || (pagination && Object.keys(pagination).length > 0) || (apiKeys && Array.isArray(apiKeys) && apiKeys.length > 0);
+    const { userId, filter, search, pagination, apiKeys } = this.toUserConversationsQuery(options);
+    const request = () => this.requestUserConversations(userId, filter, search, pagination, apiKeys);
 
-    try {
-      // Build request payload for HTTP
-      let httpResponse: any;
-      if (useV2) {
-        const eventPayload: any = { userId };
-        if (filter && Object.keys(filter).length > 0) {
-          eventPayload.filter = filter;
-        }
-        if (search && Object.keys(search).length > 0) {
-          eventPayload.search = search;
+    if (this.cache) {
+      const cacheKey = `conversations:${hashStorageKey(this.apiKey)}:${JSON.stringify({ userId, filter, search, pagination, apiKeys })}`;
+      const cached = await this.cache.get<UserConversationsPayload>(cacheKey);
+      if (cached) {
+        if (this.cache.isStale(cached)) {
+          this.revalidateUserConversations(cacheKey, request);
         }
-        if (pagination && Object.keys(pagination).length > 0) {
-          eventPayload.pagination = pagination;
-        }
-        if (apiKeys && Array.isArray(apiKeys) && apiKeys.length > 0) {
-          eventPayload.apiKeys = apiKeys;
-        }
-        httpResponse = await this._send({
-          action: 'sendMessage',
-          event: {
-            event_type: 'get_user_conversations_v2',
-            event_payload: eventPayload,
-          },
-        });
-      } else {
-        httpResponse = await this._send({
-          action: 'sendMessage',
-          event: {
-            event_type: 'get_user_conversations',
-            event_payload: {
-              userId,
-            },
-          },
-        });
+        return this.toUserConversations(cached.value);
       }
+      const payload = await request();
+      await this.cache.set(cacheKey, payload);
+      return this.toUserConversations(payload);
+    }
+    return this.toUserConversations(await request());
+  }
 
-      // Support both direct JSON responses and event-wrapped responses
-      const payload = httpResponse?.event?.event_payload || httpResponse;
-      const responseConversations = payload?.conversations || [];
-      const responsePagination = payload?.pagination;
-
-      for (const conv of responseConversations) {
-        const { conversation_id, metadata, apiKey } = conv;
-        if (this.socket !== null) {
-          conversations.push(
-            withSocketGuard(
-              new Conversation(
-                conversation_id,
-                this.socket,
-                metadata,
-                apiKey || this.apiKey,
-                this.mode,
-                this.socketId
-              )
-            )
-          );
-        }
+  /**
+   * Retrieves the validated user conversations payload without creating Conversation instances and without the cache.
+   * CaptivateChatManager uses it to track each conversation in the instance of its own API key.
+   * @param options - The same options object as getUserConversations().
+   * @returns A promise resolving to the raw conversation entries and optional pagination data.
+   */
+  public async fetchUserConversations(options: UserConversationsOptions): Promise<UserConversationsPayload> {
+    const { userId, filter, search, pagination, apiKeys } = this.toUserConversationsQuery(options);
+    return this.requestUserConversations(userId, filter, search, pagination, apiKeys);
+  }
+
+  /**
+   * Records the session user and moves `status` into the filter of a user conversations request.
+   */
+  private toUserConversationsQuery(options: UserConversationsOptions) {
+    const { userId, status, search = {}, pagination = {}, apiKeys } = options;
+    this.sessionUserId = userId;
+    const filter: object = status !== undefined ? { ...options.filter, status } : (options.filter || {});
+    return { userId, filter, search, pagination, apiKeys };
+  }
+
+  /**
+   * Registers a listener for conversation lists revalidated in the background (only when the cache is enabled).
+   * @param callback - Invoked with the fresh result of a getUserConversations() call that was served from the cache.
+   * @returns A function that removes the listener.
+   */
+  public onUserConversationsUpdate(callback: UserConversationsListener): () => void {
+    this.userConversationsListeners.add(callback);
+    return () => {
+      this.userConversationsListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Requests a user's conversations over HTTP, using the v2 event when filters, search, pagination or API keys are given.
+   * @returns A promise resolving to the validated response payload.
+   */
+  private async requestUserConversations(
+    userId: string,
+    filter: object,
+    search: object,
+    pagination: object,
+    apiKeys?: string[]
+  ): Promise<UserConversationsPayload> {
+    const useV2 = (filter && Object.keys(filter).length > 0) || (search && Object.keys(search).length > 0) || (pagination && Object.keys(pagination).length > 0) || (apiKeys && Array.isArray(apiKeys) && apiKeys.length > 0);
+
+    // Build request payload for HTTP
+    let httpResponse: any;
+    if (useV2) {
+      const eventPayload: any = { userId };
+      if (filter && Object.keys(filter).length > 0) {
+        eventPayload.filter = filter;
       }
+      if (search && Object.keys(search).length > 0) {
+        eventPayload.search = search;
+      }
+      if (pagination && Object.keys(pagination).length > 0) {
+        eventPayload.pagination = pagination;
+      }
+      if (apiKeys && Array.isArray(apiKeys) && apiKeys.length > 0) {
+        eventPayload.apiKeys = apiKeys;
+      }
+      httpResponse = await this._send({
+        action: 'sendMessage',
+        event: {
+          event_type: 'get_user_conversations_v2',
+          event_payload: eventPayload,
+        },
+      });
+    } else {
+      httpResponse = await this._send({
+        action: 'sendMessage',
+        event: {
+          event_type: 'get_user_conversations',
+          event_payload: {
+            userId,
+          },
+        },
+      });
+    }
+
+    // Support both direct JSON responses and event-wrapped responses
+    const payload = this.validator.checkHttpResponse('user_conversations', httpResponse?.event?.event_payload || httpResponse);
+    return {
+      conversations: payload?.conversations || [],
+      pagination: payload?.pagination,
+    };
+  }
 
-      if (responsePagination) {
-        paginationData = responsePagination;
+  /**
+   * Turns a user conversations payload into live Conversation instances.
+   */
+  private toUserConversations(payload: UserConversationsPayload): UserConversationsResult {
+    const conversations: Conversation[] = [];
+    for (const conv of payload.conversations) {
+      const { conversation_id, metadata, apiKey } = conv;
+      if (this.socket !== null) {
+        conversations.push(this.getOrCreateConversation(conversation_id, metadata, apiKey || this.apiKey));
       }
+    }
+    return { conversations, pagination: payload.pagination };
+  }
 
-      return { conversations, pagination: paginationData };
-    } catch (error) {
-      throw error;
+  /**
+   * Refreshes a cached conversation list in the background and notifies onUserConversationsUpdate listeners.
+   * Failures are logged and the cached list is kept.
+   */
+  private revalidateUserConversations(cacheKey: string, request: () => Promise<UserConversationsPayload>): void {
+    if (this.userConversationsRevalidations.has(cacheKey)) {
+      return;
     }
+    this.userConversationsRevalidations.add(cacheKey);
+    request()
+      .then(async (payload) => {
+        await this.cache?.set(cacheKey, payload);
+        const result = this.toUserConversations(payload);
+        this.userConversationsListeners.forEach((listener) => {
+          try {
+            listener(result);
+          } catch (error) {
+            captivateLogger.error('Error in user conversations listener:', error);
+          }
+        });
+      })
+      .catch((error) => captivateLogger.error('Failed to revalidate user conversations:', error))
+      .finally(() => {
+        this.userConversationsRevalidations.delete(cacheKey);
+      });
   }
 
   /**
@@ -526,12 +906,12 @@ export class CaptivateChatAPI {
    */
   public async deleteUserConversations(userId: string, options: { softDelete?: boolean } = {}): Promise<void> {
     if (!userId) {
-      throw new Error('User ID must be provided.');
+      throw new CaptivateValidationError('User ID must be provided.');
     }
 
     const { softDelete = true } = options;
 
-    const deleteRequest = {
+    const deleteRequest: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: 'delete_user_conversations',
@@ -556,6 +936,21 @@ export class CaptivateChatAPI {
     return this.socket;
   }
 
+  /**
+   * Gets the dispatcher that routes this instance's WebSocket events to conversations.
+   */
+  public getDispatcher(): SocketEventDispatcher {
+    return this.dispatcher;
+  }
+
+  /**
+   * Gets the endpoints this instance uses for WebSocket, channel HTTP and file service requests.
+   */
+  public getEndpoints(): CaptivateEndpoints {
+    const { wsUrl, httpBaseUrl, fileServiceBaseUrl } = this.endpoints;
+    return { wsUrl, httpBaseUrl, fileServiceBaseUrl };
+  }
+
   /**
    * Gets the socket ID for HTTP requests.
    */
@@ -565,6 +960,7 @@ export class CaptivateChatAPI {
 
   /**
    * Checks if the WebSocket connection is active and open for real-time communication.
+   * With the heartbeat enabled, sockets that stop answering pings are closed, so a half-open connection does not count as active for long.
    * @returns True if the socket is open, false otherwise.
    */
   public isSocketActive(): boolean {
@@ -573,28 +969,181 @@ export class CaptivateChatAPI {
 
   /**
    * Attempts to reconnect to the WebSocket server for real-time communication.
+   * Uses exponential backoff with jitter. Concurrent callers share the same reconnection cycle.
    * @returns A promise that resolves when reconnection is successful.
    */
   public async reconnect(): Promise<void> {
-    if (this.reconnectAttempts >= this.maxReconnectAttempts) {
-      throw new Error(`Max reconnection attempts (${this.maxReconnectAttempts}) reached`);
+    if (this.disposed) {
+      throw new CaptivateConnectionError('Cannot reconnect: instance has been disposed');
     }
-    this.reconnectAttempts++;
-    // Attempting to reconnect
-    try {
-      await this.connect();
-      this.reconnectAttempts = 0; // Reset on successful connection
-      // Reconnection successful
-    } catch (error) {
-      console.error(`Reconnection attempt ${this.reconnectAttempts} failed:`, error);
-      if (this.reconnectAttempts < this.maxReconnectAttempts) {
-        // Wait before next attempt
-        await new Promise(resolve => setTimeout(resolve, this.reconnectDelay));
-        return this.reconnect();
-      } else {
-        throw error;
+    if (!this.reconnectPromise) {
+      this.reconnectPromise = this.runReconnectCycle().finally(() => {
+        this.reconnectPromise = null;
+      });
+    }
+    return this.reconnectPromise;
+  }
+
+  /**
+   * Runs connection attempts until one succeeds, the attempt limit is reached or the instance is disposed.
+   */
+  private async runReconnectCycle(): Promise<void> {
+    const { maxAttempts } = this.reconnectOptions;
+    let lastError: unknown;
+    this.setConnectionState('reconnecting');
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      if (attempt > 1) {
+        const delay = getReconnectDelay(attempt - 1, this.reconnectOptions);
+        captivateLogger.log(`Reconnection attempt ${attempt} in ${delay}ms`);
+        await this.waitBeforeReconnect(delay);
+      }
+      if (this.disposed) {
+        throw new CaptivateConnectionError('Reconnection cancelled: instance has been disposed', lastError);
+      }
+
+      try {
+        await this.connect();
+        return;
+      } catch (error) {
+        lastError = error;
+        captivateLogger.log(`Reconnection attempt ${attempt} failed:`, error);
+      }
+    }
+
+    this.setConnectionState('disconnected');
+    throw new CaptivateConnectionError(`Max reconnection attempts (${maxAttempts}) reached`, lastError);
+  }
+
+  /**
+   * Waits for a backoff delay. Resolves early if dispose() cancels the reconnection.
+   */
+  private waitBeforeReconnect(delay: number): Promise<void> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timeoutId);
+        this.cancelReconnectDelay = null;
+        resolve();
+      };
+      const timeoutId = setTimeout(done, delay);
+      this.cancelReconnectDelay = done;
+    });
+  }
+
+  /**
+   * Gets the current WebSocket connection state.
+   * @returns 'connecting', 'connected', 'reconnecting' or 'disconnected'.
+   */
+  public getConnectionState(): ConnectionState {
+    return this.connectionState;
+  }
+
+  /**
+   * Registers a listener for connection state changes, e.g. to show a "reconnecting…" banner.
+   * @param callback - Invoked with the new and the previous state.
+   * @returns A function that removes the listener.
+   */
+  public onConnectionStateChange(callback: ConnectionStateListener): () => void {
+    this.connectionStateListeners.add(callback);
+    return () => {
+      this.connectionStateListeners.delete(callback);
+    };
+  }
+
+  /**
+   * Gets the round-trip time of the last answered heartbeat ping.
+   * @returns The latency in milliseconds, or null if no ping has been answered on the current connection.
+   */
+  public getLatency(): number | null {
+    return this.latency;
+  }
+
+  /**
+   * Registers a listener for latency measurements, invoked each time a heartbeat ping is answered.
+   * @param callback - Invoked with the round-trip time in milliseconds.
+   * @returns A function that removes the listener.
+   */
+  public onLatency(callback: LatencyListener): () => void {
+    this.latencyListeners.add(callback);
+    return () => {
+      this.latencyListeners.delete(callback);
+    };
+  }
+
+  private setLatency(latency: number): void {
+    this.latency = latency;
+    captivateLogger.log(`Heartbeat latency: ${latency}ms`);
+    this.latencyListeners.forEach((listener) => {
+      try {
+        listener(latency);
+      } catch (error) {
+        captivateLogger.error('Error in latency listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Registers a listener for WebSocket frames and HTTP responses that do not match the expected schema.
+   * Such data is still delivered unless the `validation.strict` option is set.
+   * @param callback - Invoked with a CaptivateProtocolError describing the problems.
+   * @returns A function that removes the listener.
+   */
+  public onProtocolError(callback: ProtocolErrorListener): () => void {
+    return this.validator.onProtocolError(callback);
+  }
+
+  /**
+   * Drops a socket that stopped answering heartbeat pings and hands off to the reconnection logic.
+   */
+  private handleDeadConnection(): void {
+    if (this.disposed || this.connectionState !== 'connected') {
+      return;
+    }
+    captivateLogger.warn('WebSocket connection is unresponsive, reconnecting');
+    this.closeSocket(4000, 'Heartbeat timeout');
+    this.reconnect().catch((error) => {
+      captivateLogger.error('Automatic reconnection failed:', error);
+    });
+  }
+
+  /**
+   * Updates the connection state and notifies listeners when it changes.
+   */
+  private setConnectionState(state: ConnectionState): void {
+    const previousState = this.connectionState;
+    if (state === previousState) {
+      return;
+    }
+    this.connectionState = state;
+    captivateLogger.log(`Connection state: ${previousState} -> ${state}`);
+    this.connectionStateListeners.forEach((listener) => {
+      try {
+        listener(state, previousState);
+      } catch (error) {
+        captivateLogger.error('Error in connection state listener:', error);
       }
+    });
+  }
+
+  /**
+   * Detaches the handlers of the current socket and closes it.
+   */
+  private closeSocket(code: number, reason: string): void {
+    this.heartbeat?.stop();
+    this.latency = null;
+    if (!this.socket) {
+      return;
+    }
+    const socket = this.socket;
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    // Keep an error handler: closing a socket that is still connecting reports an error
+    socket.onerror = () => {};
+    if (socket.readyState === WebSocketImpl.OPEN || socket.readyState === WebSocketImpl.CONNECTING) {
+      socket.close(code, reason);
     }
+    this.socket = null;
   }
 
   /**
@@ -602,11 +1151,11 @@ export class CaptivateChatAPI {
    * Enforces singleton pattern: constructor returns existing instance if one exists.
    * The returned instance is automatically guarded: all method calls will check socket state and auto-reconnect if needed.
    * @param apiKey - The API key for authentication.
-   * @param mode - The mode of operation ('prod' or 'dev').
+   * @param modeOrOptions - The mode of operation ('prod' or 'dev'), or an options object with a named environment and/or custom endpoints.
    * @returns A promise that resolves to a connected and guarded CaptivateChatAPI instance.
    */
-  static async create(apiKey: string, mode: 'prod' | 'dev' = 'prod'): Promise<CaptivateChatAPI> {
-    const api = new CaptivateChatAPI(apiKey, mode); // Constructor handles singleton
+  static async create(apiKey: string, modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod'): Promise<CaptivateChatAPI> {
+    const api = new CaptivateChatAPI(apiKey, modeOrOptions); // Constructor handles singleton
 
     // Only connect if socket is not already active
     if (!api.isSocketActive()) {
@@ -619,21 +1168,21 @@ export class CaptivateChatAPI {
   /**
    * Gets an existing instance for the given API key and mode, if one exists.
    * @param apiKey - The API key.
-   * @param mode - The mode ('prod' or 'dev').
+   * @param modeOrOptions - The mode ('prod' or 'dev') or options object used to create the instance.
    * @returns The existing instance, or undefined if none exists.
    */
-  static getInstance(apiKey: string, mode: 'prod' | 'dev' = 'prod'): CaptivateChatAPI | undefined {
-    return this.instances.get(this.getInstanceKey(apiKey, mode));
+  static getInstance(apiKey: string, modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod'): CaptivateChatAPI | undefined {
+    return this.instances.get(this.getInstanceKey(apiKey, modeOrOptions));
   }
 
   /**
    * Checks if an instance exists for the given API key and mode.
    * @param apiKey - The API key.
-   * @param mode - The mode ('prod' or 'dev').
+   * @param modeOrOptions - The mode ('prod' or 'dev') or options object used to create the instance.
    * @returns True if an instance exists, false otherwise.
    */
-  static hasInstance(apiKey: string, mode: 'prod' | 'dev' = 'prod'): boolean {
-    return this.instances.has(this.getInstanceKey(apiKey, mode));
+  static hasInstance(apiKey: string, modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod'): boolean {
+    return this.instances.has(this.getInstanceKey(apiKey, modeOrOptions));
   }
 
   /**
@@ -641,16 +1190,24 @@ export class CaptivateChatAPI {
    * After calling dispose(), a new instance can be created for the same API key/mode combination.
    */
   public dispose(): void {
-    const key = CaptivateChatAPI.getInstanceKey(this.apiKey, this.mode);
-
-    // Close WebSocket connection
-    if (this.socket) {
-      this.socket.close(1000, 'Instance disposed');
-      this.socket = null;
+    const key = this.instanceKey;
+
+    // Stop reconnecting and close WebSocket connection
+    this.disposed = true;
+    this.cancelReconnectDelay?.();
+    this.closeSocket(1000, 'Instance disposed');
+    this.setConnectionState('disconnected');
+    this.connectionStateListeners.clear();
+    this.latencyListeners.clear();
+
+    // Write a pending session change before the conversations are dropped
+    if (this.sessionSaveTimer) {
+      this.saveSession();
     }
 
-    // Clear conversations
+    // Clear conversations and their event routes
     this.conversations.clear();
+    this.dispatcher.clear();
 
     // Remove from registry
     CaptivateChatAPI.instances.delete(key);
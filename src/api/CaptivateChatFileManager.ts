@@ -1,11 +1,32 @@
+import { resolveEndpoints } from './endpoints';
+import {
+  CaptivateError,
+  CaptivateFileConversionError,
+  CaptivateHttpError,
+  CaptivateRateLimitError,
+  CaptivateServerError,
+  CaptivateValidationError,
+  createHttpError
+} from './errors';
+import { HttpRequestOptions, HttpTransport } from './transport';
+import { FileTextContent } from './types';
+
 /**
  * File manager for handling file uploads, storage, and presigned URL generation.
  * Supports direct file uploads with automatic text extraction and storage management.
  */
 export class CaptivateChatFileManager {
-  private static readonly FILE_TO_TEXT_API_URL = 'https://file-to-text.prod.captivat.io/api/file-to-text';
-  private static readonly PRESIGNED_URL_API_URL = 'https://file-to-text.prod.captivat.io/api/presigned-url';
-  private static readonly PATH_TTL_API_URL = 'https://file-to-text.prod.captivat.io/api/path-ttl';
+  /**
+   * Default file service base URL, used when no `fileServiceBaseUrl` is given.
+   */
+  private static readonly DEFAULT_FILE_SERVICE_BASE_URL = resolveEndpoints('prod').fileServiceBaseUrl;
+  private static readonly FILE_TO_TEXT_API_PATH = '/api/file-to-text';
+  private static readonly PRESIGNED_URL_API_PATH = '/api/presigned-url';
+  private static readonly PATH_TTL_API_PATH = '/api/path-ttl';
+  /**
+   * HTTP transport shared by all file service requests.
+   */
+  private static transport: HttpTransport = new HttpTransport();
   
   public readonly type: 'files' = 'files';
   public readonly files: Array<{
@@ -20,28 +41,12 @@ export class CaptivateChatFileManager {
       fileSize: number;
       processingTime: number;
     }; // Storage information when storage is true
-    textContent: {
-      type: 'file_content';
-      text: string;
-      metadata: {
-        source: 'file_attachment';
-        originalFileName: string;
-        storageType?: 'direct';
-      };
-    };
+    textContent: FileTextContent;
   }>;
 
   constructor(
     file: File | Blob,
-    textContent: {
-      type: 'file_content';
-      text: string;
-      metadata: {
-        source: 'file_attachment';
-        originalFileName: string;
-        storageType?: 'direct';
-      };
-    },
+    textContent: FileTextContent,
     type: string
   ) {
     // Set up files array for direct file upload
@@ -63,6 +68,7 @@ export class CaptivateChatFileManager {
    * @param options.url - URL to reference the file when storage is false (required when storage is false).
    * @param options.apiKey - Optional API key for constructing the path parameter.
    * @param options.conversationId - Optional conversation ID for constructing the path parameter.
+   * @param options.fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to a CaptivateChatFileManager instance with converted text.
    */
   static async create(
@@ -74,6 +80,7 @@ export class CaptivateChatFileManager {
       url?: string;
       apiKey?: string;
       conversationId?: string;
+      fileServiceBaseUrl?: string;
     }
   ): Promise<CaptivateChatFileManager> {
     // Direct file upload
@@ -82,7 +89,7 @@ export class CaptivateChatFileManager {
     
     // If storage is false, URL is required for sendMessage compatibility
     if (storage === false && !options.url) {
-      throw new Error('URL is required when storage is false for sendMessage compatibility');
+      throw new CaptivateValidationError('URL is required when storage is false for sendMessage compatibility');
     }
     
     const finalFileName = options.fileName || (file instanceof File ? file.name : `attachment_${Date.now()}`);
@@ -95,7 +102,8 @@ export class CaptivateChatFileManager {
       true, // Always include metadata
       storage,
       options.apiKey,
-      options.conversationId
+      options.conversationId,
+      options.fileServiceBaseUrl
     );
 
     // Create and return the instance with proxy for array-like behavior
@@ -188,9 +196,10 @@ export class CaptivateChatFileManager {
   /**
    * Refreshes the secure URL for the first file (if it has storage information).
    * @param expiresIn - Expiration time in seconds (default: 7200 = 2 hours).
+   * @param fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to the refreshed secure URL, or undefined if no storage info.
    */
-  async refreshSecureUrl(expiresIn: number = 7200): Promise<string | undefined> {
+  async refreshSecureUrl(expiresIn: number = 7200, fileServiceBaseUrl?: string): Promise<string | undefined> {
     const firstFile = this.files[0];
     if (!firstFile || !(firstFile as any).storage?.fileKey) {
       return undefined;
@@ -198,7 +207,8 @@ export class CaptivateChatFileManager {
     
     return await CaptivateChatFileManager.getSecureFileUrl(
       (firstFile as any).storage.fileKey, 
-      expiresIn
+      expiresIn,
+      fileServiceBaseUrl
     );
   }
 
@@ -228,6 +238,7 @@ export class CaptivateChatFileManager {
    * @param options.fileType - Optional custom file type.
    * @param options.storage - Whether to store the file for future reference (default: true).
    * @param options.url - URL to reference the file when storage is false (required when storage is false).
+   * @param options.fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to a single file object.
    */
   static async createFile(
@@ -239,20 +250,13 @@ export class CaptivateChatFileManager {
       url?: string;
       apiKey?: string;
       conversationId?: string;
+      fileServiceBaseUrl?: string;
     }
   ): Promise<{
     filename: string;
     type: string;
     file?: File | Blob;
-    textContent: {
-      type: 'file_content';
-      text: string;
-      metadata: {
-        source: 'file_attachment';
-        originalFileName: string;
-        storageType?: 'direct';
-      };
-    };
+    textContent: FileTextContent;
   }> {
     const fileInput = await CaptivateChatFileManager.create({
       file: options.file,
@@ -261,7 +265,8 @@ export class CaptivateChatFileManager {
       storage: options.storage,
       url: options.url,
       apiKey: options.apiKey,
-      conversationId: options.conversationId
+      conversationId: options.conversationId,
+      fileServiceBaseUrl: options.fileServiceBaseUrl
     });
     return fileInput.getFirstFile()!;
   }
@@ -273,6 +278,7 @@ export class CaptivateChatFileManager {
    * @param options.files - Array of files to process.
    * @param options.storage - Whether to store the files for future reference (default: true).
    * @param options.urls - Array of URLs to reference files when storage is false (required when storage is false).
+   * @param options.fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to a CaptivateChatFileManager instance with all processed files.
    */
   static async createMultiple(
@@ -282,13 +288,14 @@ export class CaptivateChatFileManager {
       urls?: string[];
       apiKey?: string;
       conversationId?: string;
+      fileServiceBaseUrl?: string;
     }
   ): Promise<CaptivateChatFileManager> {
     const storage = options.storage !== undefined ? options.storage : true; // Default to true
     
     // If storage is false, URLs are required for sendMessage compatibility
     if (storage === false && (!options.urls || options.urls.length !== options.files.length)) {
-      throw new Error('URLs array is required when storage is false and must match the number of files');
+      throw new CaptivateValidationError('URLs array is required when storage is false and must match the number of files');
     }
     
     // Process multiple files
@@ -299,7 +306,8 @@ export class CaptivateChatFileManager {
         storage: storage,
         url: storage === false ? options.urls![index] : undefined,
         apiKey: options.apiKey,
-        conversationId: options.conversationId
+        conversationId: options.conversationId,
+        fileServiceBaseUrl: options.fileServiceBaseUrl
       }))
     );
 
@@ -331,41 +339,32 @@ export class CaptivateChatFileManager {
    * Generates a secure URL for accessing a stored file.
    * @param fileKey - The file key from the storage response.
    * @param expiresIn - Expiration time in seconds (default: 7200 = 2 hours).
+   * @param fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to the secure URL.
    */
-  static async getSecureFileUrl(fileKey: string, expiresIn: number = 7200): Promise<string> {
-    const url = CaptivateChatFileManager.PRESIGNED_URL_API_URL;
+  static async getSecureFileUrl(fileKey: string, expiresIn: number = 7200, fileServiceBaseUrl?: string): Promise<string> {
+    const url = CaptivateChatFileManager.getFileServiceUrl(CaptivateChatFileManager.PRESIGNED_URL_API_PATH, fileServiceBaseUrl);
 
     try {
-      const response = await fetch(url, {
+      const data = await CaptivateChatFileManager.requestFileService(url, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
+        json: {
           fileKey: fileKey,
           expiresIn: expiresIn
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`Secure URL generation failed: ${response.status} ${response.statusText}. ${errorData.error || ''}`);
-      }
-
-      const data = await response.json();
+        }
+      }, 'Secure URL generation failed');
       
       if (!data.success) {
-        throw new Error(`Secure URL generation failed: ${data.error || 'Unknown error'}`);
+        throw new CaptivateServerError(`Secure URL generation failed: ${data.error || 'Unknown error'}`, { status: 0, body: data, url });
       }
 
       return data.presignedUrl || '';
 
     } catch (error: any) {
-      if (error.message.includes('Secure URL generation failed')) {
+      if (error instanceof CaptivateError) {
         throw error;
       }
-      throw new Error(`Failed to generate secure URL: ${error.message}`);
+      throw new CaptivateServerError(`Failed to generate secure URL: ${error.message}`, { status: 0, url });
     }
   }
 
@@ -374,54 +373,47 @@ export class CaptivateChatFileManager {
    * @param apiKey - The API key for authentication.
    * @param conversationId - The conversation ID.
    * @param days - The number of days for the time-to-live.
+   * @param fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves when the TTL is set successfully.
    */
-  static async setTimeToLive(apiKey: string, conversationId: string, days: number): Promise<void> {
+  static async setTimeToLive(apiKey: string, conversationId: string, days: number, fileServiceBaseUrl?: string): Promise<void> {
     if (!apiKey) {
-      throw new Error('API key is required');
+      throw new CaptivateValidationError('API key is required');
     }
 
     if (!conversationId) {
-      throw new Error('Conversation ID is required');
+      throw new CaptivateValidationError('Conversation ID is required');
     }
 
     if (typeof days !== 'number' || days <= 0 || !Number.isInteger(days)) {
-      throw new Error('Days must be a positive integer.');
+      throw new CaptivateValidationError('Days must be a positive integer.');
     }
 
     const path = `${apiKey}/${conversationId}`;
-    const url = CaptivateChatFileManager.PATH_TTL_API_URL;
+    const url = CaptivateChatFileManager.getFileServiceUrl(CaptivateChatFileManager.PATH_TTL_API_PATH, fileServiceBaseUrl);
 
     try {
-      const response = await fetch(url, {
+      const data = await CaptivateChatFileManager.requestFileService(url, {
         method: 'POST',
         headers: {
           'x-api-key': apiKey,
-          'Content-Type': 'application/json',
           'Accept': 'application/json'
         },
-        body: JSON.stringify({
+        json: {
           path: path,
           days: days
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`TTL update failed: ${response.status} ${response.statusText}. ${errorData.error || ''}`);
-      }
-
-      const data = await response.json().catch(() => ({ status: 'success' }));
+        }
+      }, 'TTL update failed') || { status: 'success' };
 
       if (data.success === false) {
-        throw new Error(`TTL update failed: ${data.error || 'Unknown error'}`);
+        throw new CaptivateServerError(`TTL update failed: ${data.error || 'Unknown error'}`, { status: 0, body: data, url });
       }
 
     } catch (error: any) {
-      if (error.message.includes('TTL update failed')) {
+      if (error instanceof CaptivateError) {
         throw error;
       }
-      throw new Error(`Failed to set path time-to-live: ${error.message}`);
+      throw new CaptivateServerError(`Failed to set path time-to-live: ${error.message}`, { status: 0, url });
     }
   }
 
@@ -433,10 +425,11 @@ export class CaptivateChatFileManager {
    * @param storage - Whether to store the file for future reference.
    * @param apiKey - Optional API key for constructing the path parameter.
    * @param conversationId - Optional conversation ID for constructing the path parameter.
+   * @param fileServiceBaseUrl - Optional file service base URL (defaults to production).
    * @returns A promise that resolves to the extracted text.
    */
-  private static async convertFileToText(file: File | Blob, fileName: string, includeMetadata: boolean, storage: boolean, apiKey?: string, conversationId?: string): Promise<{text: string, storageInfo?: any}> {
-    const url = CaptivateChatFileManager.FILE_TO_TEXT_API_URL;
+  private static async convertFileToText(file: File | Blob, fileName: string, includeMetadata: boolean, storage: boolean, apiKey?: string, conversationId?: string, fileServiceBaseUrl?: string): Promise<{text: string, storageInfo?: any}> {
+    const url = CaptivateChatFileManager.getFileServiceUrl(CaptivateChatFileManager.FILE_TO_TEXT_API_PATH, fileServiceBaseUrl);
 
     // Create FormData for multipart/form-data request
     const formData = new FormData();
@@ -451,20 +444,13 @@ export class CaptivateChatFileManager {
     }
 
     try {
-      const response = await fetch(url, {
+      const data = await CaptivateChatFileManager.requestFileService(url, {
         method: 'POST',
         body: formData
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        throw new Error(`File conversion failed: ${response.status} ${response.statusText}. ${errorData.error || ''}`);
-      }
-
-      const data = await response.json();
+      }, 'File conversion failed');
       
       if (!data.success) {
-        throw new Error(`File conversion failed: ${data.error || 'Unknown error'}`);
+        throw new CaptivateFileConversionError(`File conversion failed: ${data.error || 'Unknown error'}`, { fileName });
       }
 
       return {
@@ -479,10 +465,47 @@ export class CaptivateChatFileManager {
       };
 
     } catch (error: any) {
-      if (error.message.includes('File conversion failed')) {
+      if (error instanceof CaptivateHttpError) {
+        throw new CaptivateFileConversionError(error.message, { status: error.status, fileName }, error);
+      }
+      if (error instanceof CaptivateError) {
         throw error;
       }
-      throw new Error(`Failed to convert file to text: ${error.message}`);
+      throw new CaptivateFileConversionError(`Failed to convert file to text: ${error.message}`, { fileName }, error);
+    }
+  }
+
+  /**
+   * Sends a request to the file service through the shared transport.
+   * HTTP errors are re-raised with the operation name and the service's error message.
+   * @param url - The file service endpoint URL.
+   * @param options - Request options.
+   * @param failurePrefix - Prefix for error messages (e.g. 'File conversion failed').
+   * @returns A promise that resolves to the parsed response body.
+   */
+  private static async requestFileService(url: string, options: HttpRequestOptions, failurePrefix: string): Promise<any> {
+    try {
+      return await CaptivateChatFileManager.transport.request(url, options);
+    } catch (error) {
+      if (error instanceof CaptivateHttpError) {
+        throw createHttpError(
+          `${failurePrefix}: ${error.status} ${error.statusText}. ${error.body?.error || ''}`,
+          error,
+          error instanceof CaptivateRateLimitError ? error.retryAfter : undefined
+        );
+      }
+      throw error;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Builds a file service URL from a base URL and an endpoint path.
+   * @param path - The endpoint path (e.g. '/api/file-to-text').
+   * @param fileServiceBaseUrl - Optional file service base URL (defaults to production).
+   * @returns The full endpoint URL.
+   */
+  private static getFileServiceUrl(path: string, fileServiceBaseUrl?: string): string {
+    const baseUrl = (fileServiceBaseUrl || CaptivateChatFileManager.DEFAULT_FILE_SERVICE_BASE_URL).replace(/\/+$/, '');
+    return `${baseUrl}${path}`;
+  }
+}
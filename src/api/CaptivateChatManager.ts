@@ -1,18 +1,20 @@
-import { CaptivateChatAPI } from './CaptivateChatAPI';
+import { CaptivateChatAPI, UserConversationsOptions } from './CaptivateChatAPI';
 import { Conversation } from './Conversation';
+import { CaptivateChatOptions, CaptivateMode } from './endpoints';
+import { CaptivateConnectionError, CaptivateValidationError } from './errors';
 
 type ApiKey = string;
 
 export class CaptivateChatManager {
   private apiInstances: { [apiKey: string]: CaptivateChatAPI } = {};
 
-  constructor(apiKeys: ApiKey[], mode: 'prod' | 'dev' = 'prod') {
+  constructor(apiKeys: ApiKey[], modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod') {
     // Deduplicate API keys to prevent duplicate instances
     const uniqueKeys = [...new Set(apiKeys)];
 
     for (const key of uniqueKeys) {
       // Constructor now returns singleton automatically
-      this.apiInstances[key] = new CaptivateChatAPI(key, mode);
+      this.apiInstances[key] = new CaptivateChatAPI(key, modeOrOptions);
     }
   }
 
@@ -21,10 +23,10 @@ export class CaptivateChatManager {
    * All apiInstances are created using CaptivateChatAPI.create, so they are guarded and connected.
    * Automatically deduplicates API keys to prevent duplicate instances.
    * @param apiKeys - Array of API keys to create instances for.
-   * @param mode - The mode of operation ('prod' or 'dev').
+   * @param modeOrOptions - The mode of operation ('prod' or 'dev'), or an options object with a named environment and/or custom endpoints shared by all instances.
    * @returns A promise that resolves to a connected CaptivateChatManager instance with guarded APIs.
    */
-  static async create(apiKeys: ApiKey[], mode: 'prod' | 'dev' = 'prod'): Promise<CaptivateChatManager> {
+  static async create(apiKeys: ApiKey[], modeOrOptions: CaptivateMode | CaptivateChatOptions = 'prod'): Promise<CaptivateChatManager> {
     // Deduplicate API keys to prevent duplicate instances
     const uniqueKeys = [...new Set(apiKeys)];
 
@@ -32,7 +34,7 @@ export class CaptivateChatManager {
     manager.apiInstances = {};
     for (const key of uniqueKeys) {
       // CaptivateChatAPI.create() now returns singleton automatically
-      manager.apiInstances[key] = await CaptivateChatAPI.create(key, mode);
+      manager.apiInstances[key] = await CaptivateChatAPI.create(key, modeOrOptions);
     }
     return manager;
   }
@@ -45,28 +47,21 @@ export class CaptivateChatManager {
   }
 
   // Unified getUserConversations supporting multi-api-key
-  async getUserConversations(options: {
-    userId: string;
-    apiKeys?: string[];
-    filter?: object;
-    search?: object;
-    pagination?: { page?: string | number; limit?: string | number };
-  }): Promise<{ conversations: Conversation[]; pagination?: any }> {
+  async getUserConversations(options: UserConversationsOptions): Promise<{ conversations: Conversation[]; pagination?: any }> {
     // Use the first API instance to make the merged request
     const apiKeys = options.apiKeys || Object.keys(this.apiInstances);
     const api = this.apiInstances[apiKeys[0]];
-    // Always include apiKeys in the options passed to getUserConversations
+    // Always include apiKeys in the options passed to fetchUserConversations
     const { apiKeys: _apiKeys, ...rest } = options;
-    const result = await api.getUserConversations({ ...rest, apiKeys });
+    // Work from the raw payload so only the owning instance tracks each conversation
+    const result = await api.fetchUserConversations({ ...rest, apiKeys });
 
     // Build Conversation objects with correct sockets
-    const conversations = result.conversations.map((conv: any) => {
-      const apiKey = conv.apiKey;
+    const conversations = result.conversations.map(({ conversation_id, metadata, apiKey = apiKeys[0] }) => {
       const apiInstance = this.apiInstances[apiKey];
-      if (!apiInstance) throw new Error(`No CaptivateChatAPI instance for apiKey: ${apiKey}`);
-      if (!apiInstance.getSocket()) throw new Error(`WebSocket not initialized for apiKey: ${apiKey}`);
-      // Re-create the Conversation with the correct socket if needed
-      return new Conversation(conv.conversationId, apiInstance.getSocket()!, conv.metadata, apiKey);
+      if (!apiInstance) throw new CaptivateValidationError(`No CaptivateChatAPI instance for apiKey: ${apiKey}`);
+      if (!apiInstance.getSocket()) throw new CaptivateConnectionError(`WebSocket not initialized for apiKey: ${apiKey}`);
+      return apiInstance.getOrCreateConversation(conversation_id, metadata, apiKey);
     });
 
     return {
@@ -1,10 +1,118 @@
 import { CaptivateChatFileManager } from './CaptivateChatFileManager';
 import { captivateLogger } from './CaptivateChatAPI';
+import { CaptivateEndpoints, CaptivateMode, resolveEndpoints } from './endpoints';
+import { HttpTransport } from './transport';
+import { CaptivateServerError, CaptivateTimeoutError, CaptivateValidationError, createGeneralError } from './errors';
+import { SocketEventDispatcher } from './SocketEventDispatcher';
+import { Outbox, OutboxItem, OutboxItemKind, OutboxListener, OutboxOptions } from './outbox';
+import { generateClientMessageId } from './ids';
+import { MessageHandle } from './MessageHandle';
+import { ChatCache } from './cache';
+import { getEntryMessageId, getEntrySender, getEntryTimestamp, normalizeTranscriptEntry, paginateTranscript } from './transcript';
+import { DEFAULT_SENDER_LABELS, TranscriptExportOptions, getTranscriptFormatter } from './transcriptExport';
+import {
+  Action,
+  ActionPayload,
+  AgentMessageContent,
+  AgentMessagePayload,
+  ChannelMessage,
+  ConversationErrorEvent,
+  ConversationEventMap,
+  ConversationEventName,
+  ConversationSocketEvent,
+  ConversationStatus,
+  ConversationUpdate,
+  ConversationUpdatePayload,
+  Feedback,
+  FileTextContent,
+  GeneralErrorPayload,
+  IncomingMessage,
+  MessageCallback,
+  MessageConfirmation,
+  MessageDetails,
+  MessageStatus,
+  MessageStatusPayload,
+  MessageStatusUpdate,
+  MessageStreamEvent,
+  MessageStreamPayload,
+  AgentPresenceEvent,
+  AgentType,
+  HandoffAgent,
+  HandoffState,
+  HandoffStateChange,
+  OutgoingMessageContent,
+  SendMessageOptions,
+  SerializedConversation,
+  TranscriptPage,
+  TranscriptPageOptions,
+  TypingEvent
+} from './types';
 
-interface Action {
-  id: string;
-  data: any;
-}
+/**
+ * Event types that carry agent messages and take part in missed-message catch-up.
+ */
+const MESSAGE_EVENT_TYPES = ['bot_message', 'livechat_message'];
+
+/**
+ * Message event types recorded in the cached transcript, and the sender written to their entries.
+ */
+const TRANSCRIPT_EVENT_SENDERS: Record<string, string> = {
+  bot_message: 'bot',
+  livechat_message: 'livechat',
+  user_message: 'user',
+};
+
+/**
+ * Number of recently seen message IDs kept to avoid delivering the same message twice.
+ */
+const MAX_SEEN_MESSAGE_IDS = 500;
+
+/**
+ * Typing event types and the kind of agent they come from.
+ */
+const TYPING_EVENT_TYPES: Record<string, AgentType> = {
+  bot_typing: 'ai_agent',
+  livechat_typing: 'human_agent',
+};
+
+/**
+ * conversation_update types that move the handoff to a new state.
+ */
+const HANDOFF_UPDATE_STATES: Record<string, HandoffState> = {
+  livechat_queued: 'queued',
+  livechat_assigned: 'assigned',
+  livechat_joined: 'assigned',
+  livechat_ended: 'ended',
+};
+
+/**
+ * conversation_update types that change the lifecycle status, and the resulting status.
+ */
+const STATUS_UPDATE_TYPES: Record<string, ConversationStatus> = {
+  conversation_closed: 'closed',
+  conversation_reopened: 'open',
+  conversation_archived: 'archived',
+};
+
+/**
+ * Time after a local lifecycle change during which a server update of the same type is treated as its echo, in milliseconds.
+ */
+const STATUS_ECHO_WINDOW_MS = 5000;
+
+/**
+ * Minimum time between two typing signals sent while the user keeps typing, in milliseconds.
+ */
+const TYPING_THROTTLE_MS = 3000;
+
+/**
+ * Time without startTyping() calls after which the user is reported as no longer typing, in milliseconds.
+ */
+const TYPING_IDLE_MS = 5000;
+
+/**
+ * Time after which an agent that did not send a stop event is reported as no longer typing, in milliseconds.
+ */
+const AGENT_TYPING_TIMEOUT_MS = 15000;
 
 /**
  * Represents a conversation session, handling HTTP communication for sending and WebSocket for receiving.
@@ -16,40 +124,128 @@ export class Conversation {
   private metadata: object;
   public fileManager: any;
   /**
-   * WebSocket connection for receiving real-time messages from server.
+   * Dispatcher that routes this conversation's WebSocket events to it.
+   */
+  private dispatcher: SocketEventDispatcher;
+  /**
+   * Removes this conversation's handler from the dispatcher.
    */
-  private socket: WebSocket;
+  private unregisterHandler: (() => void) | null = null;
   /**
    * Event listeners for real-time WebSocket communication.
    */
   private listeners: Map<string, Function[]>;
-  private mode: 'prod' | 'dev';
+  /**
+   * Unsubscribe functions of the callbacks registered through the public on* methods, per event name and callback.
+   */
+  private subscriptions: Map<ConversationEventName, Map<Function, Array<() => void>>> = new Map();
+  /**
+   * Maps the wrappers created by once() to the callbacks they wrap, so off() accepts the original callback.
+   */
+  private onceCallbacks: WeakMap<Function, Function> = new WeakMap();
+  /**
+   * Endpoints used for HTTP and file service requests.
+   */
+  private endpoints: CaptivateEndpoints;
+  /**
+   * HTTP transport shared with the owning API instance.
+   */
+  private transport: HttpTransport;
   /**
    * Socket ID for HTTP requests.
    */
   private socketId: string | null = null;
+  /**
+   * ID of the last agent message delivered to listeners, used to find missed messages after a reconnect.
+   */
+  private lastSeenMessageId: string | null = null;
+  /**
+   * Time of the last agent message delivered to listeners (or of construction), in milliseconds.
+   */
+  private lastSeenTimestamp: number = Date.now();
+  /**
+   * Recently delivered message IDs, oldest first.
+   */
+  private seenMessageIds: Set<string> = new Set();
+  /**
+   * Live message events received while a catch-up is running, delivered once it completes to keep order.
+   */
+  private pendingMessageEvents: ConversationSocketEvent[] | null = null;
+  /**
+   * Text accumulated so far for each bot message being streamed, by message ID.
+   */
+  private activeStreams: Map<string, string> = new Map();
+  /**
+   * Queue of outgoing payloads kept while offline, or null when the outbox is disabled.
+   */
+  private outbox: Outbox | null = null;
+  /**
+   * Client message IDs of recently sent messages whose server echo has not arrived yet, oldest first.
+   */
+  private unconfirmedClientMessageIds: Set<string> = new Set();
+  /**
+   * Handles of recently sent messages by client message ID, oldest first, updated as acknowledgements arrive.
+   */
+  private sentMessages: Map<string, MessageHandle> = new Map();
+  /**
+   * Whether the user is currently reported as typing, and when the last typing signal was sent.
+   */
+  private isTyping: boolean = false;
+  private typingSentAt: number = 0;
+  private typingIdleTimer: ReturnType<typeof setTimeout> | null = null;
+  /**
+   * Agents currently typing, with the timer that reports them as stopped if no stop event arrives.
+   */
+  private agentTypingTimers: Map<AgentType, ReturnType<typeof setTimeout>> = new Map();
+  /**
+   * Current stage of the handoff to a human agent.
+   */
+  private handoffState: HandoffState = 'none';
+  /**
+   * Lifecycle status, taken from the metadata `status` and kept up to date by lifecycle updates.
+   */
+  private status: ConversationStatus = 'open';
+  /**
+   * Lifecycle update started by close(), reopen() or archive(), kept until the server echoes it.
+   * `emitted` is set once this client has delivered the update itself, so the echo is not delivered twice.
+   * `expiresAt` bounds how long an echo is waited for once the update was delivered.
+   */
+  private pendingStatusUpdate: { type: string; emitted: boolean; expiresAt: number } | null = null;
+  /**
+   * Local transcript cache, or null when caching is disabled.
+   */
+  private cache: ChatCache | null = null;
+  /**
+   * The background transcript revalidation in progress, if any.
+   */
+  private transcriptRevalidation: Promise<void> | null = null;
   /**
    * Initializes a new Conversation instance.
    * @param conversationId - The unique identifier of the conversation.
-   * @param socket - WebSocket instance for receiving real-time messages.
+   * @param dispatcher - Dispatcher of the owning API instance, used for receiving real-time messages.
    * @param metadata - Optional metadata for the conversation.
    * @param apiKey - API key for HTTP communication (required).
-   * @param mode - The mode of operation ('prod' or 'dev').
+   * @param modeOrEndpoints - The mode of operation ('prod' or 'dev') or the resolved endpoints of the owning API instance.
    * @param socketId - Socket ID for HTTP requests.
+   * @param transport - HTTP transport to use (a default one is created if omitted).
    */
-  constructor(conversation_id: string, socket: WebSocket, metadata?: object, apiKey?: string, mode?: 'prod' | 'dev', socketId?: string | null) {
+  constructor(conversation_id: string, dispatcher: SocketEventDispatcher, metadata?: object, apiKey?: string, modeOrEndpoints?: CaptivateMode | CaptivateEndpoints, socketId?: string | null, transport?: HttpTransport) {
     this.apiKey = apiKey || '';
     this.conversationId = conversation_id;
-    this.socket = socket;
+    this.dispatcher = dispatcher;
     this.metadata = metadata || {};
+    const metadataStatus = (this.metadata as { status?: unknown }).status;
+    if (metadataStatus === 'closed' || metadataStatus === 'archived') {
+      this.status = metadataStatus;
+    }
     this.listeners = new Map();
-    this.mode = mode || 'prod'; // Default to 'prod' if not specified
+    // Default to 'prod' endpoints if not specified
+    this.endpoints = typeof modeOrEndpoints === 'object' ? modeOrEndpoints : resolveEndpoints(modeOrEndpoints || 'prod');
     this.socketId = socketId || null;
+    this.transport = transport || new HttpTransport();
 
     // WebSocket listeners for real-time communication from server
-    if (this.socket) {
-      this.socket.onmessage = this.handleMessage.bind(this);
-    }
+    this.restartListeners();
 
     if (!this.apiKey) {
       console.warn('API key is required for HTTP communication. Some features may not work properly.');
@@ -71,7 +267,8 @@ export class Conversation {
           storage: options.storage,
           url: options.url,
           apiKey: this.apiKey,
-          conversationId: this.conversationId
+          conversationId: this.conversationId,
+          fileServiceBaseUrl: this.endpoints.fileServiceBaseUrl
         } as any);
       },
       createFile: async (options: {
@@ -84,15 +281,7 @@ export class Conversation {
         filename: string;
         type: string;
         file?: File | Blob;
-        textContent: {
-          type: 'file_content';
-          text: string;
-          metadata: {
-            source: 'file_attachment';
-            originalFileName: string;
-            storageType?: 'direct';
-          };
-        };
+        textContent: FileTextContent;
       }> => {
         return CaptivateChatFileManager.createFile({
           file: options.file,
@@ -101,7 +290,8 @@ export class Conversation {
           storage: options.storage,
           url: options.url,
           apiKey: this.apiKey,
-          conversationId: this.conversationId
+          conversationId: this.conversationId,
+          fileServiceBaseUrl: this.endpoints.fileServiceBaseUrl
         } as any);
       },
       createMultiple: async (options: {
@@ -114,136 +304,1086 @@ export class Conversation {
           storage: options.storage,
           urls: options.urls,
           apiKey: this.apiKey,
-          conversationId: this.conversationId
+          conversationId: this.conversationId,
+          fileServiceBaseUrl: this.endpoints.fileServiceBaseUrl
         } as any);
       }
     };
   }
 
   /**
-   * Handles incoming WebSocket messages for real-time communication.
-   * @param event - The WebSocket message event.
+   * Handles WebSocket events routed to this conversation by the dispatcher.
+   * @param event - The event, narrowed by its event_type.
+   */
+  private handleMessage(event: ConversationSocketEvent): void {
+    switch (event.event_type) {
+      case 'message_status':
+        this.handleStatusReceipt(event.event_payload);
+        return;
+      case 'bot_typing':
+      case 'livechat_typing':
+        this.setAgentTyping(TYPING_EVENT_TYPES[event.event_type], event.event_payload.is_typing !== false, event.event_payload.agent_name);
+        return;
+    }
+    this.confirmEcho(event.event_payload);
+
+    switch (event.event_type) {
+      case 'conversation_update': {
+        const payload = event.event_payload;
+        const status = STATUS_UPDATE_TYPES[payload.type];
+        const pending = this.pendingStatusUpdate;
+        // Any lifecycle update after the local one was delivered ends the wait for its echo
+        if (pending && status && (pending.type === payload.type || pending.emitted)) {
+          this.pendingStatusUpdate = null;
+          // The server echoing a lifecycle change this client already delivered
+          if (pending.type === payload.type && pending.emitted && Date.now() <= pending.expiresAt) {
+            return;
+          }
+        }
+        if (status && status !== this.status) {
+          this.status = status;
+          this.notifyStateChange();
+        }
+        this.applyHandoffUpdate(payload);
+        break;
+      }
+      case 'bot_message_start':
+      case 'bot_message_delta':
+      case 'bot_message_end':
+        this.handleStreamEvent(event.event_type, event.event_payload);
+        return;
+      case 'bot_message':
+      case 'livechat_message': {
+        if (this.pendingMessageEvents) {
+          this.pendingMessageEvents.push(event);
+          return;
+        }
+        const payload = event.event_payload;
+        const messageId = getEntryMessageId(payload);
+        if (messageId && this.seenMessageIds.has(messageId)) {
+          return;
+        }
+        this.markSeen(messageId, getEntryTimestamp(payload) ?? Date.now());
+        // A message ends the agent's typing indicator
+        this.setAgentTyping(event.event_type === 'bot_message' ? 'ai_agent' : 'human_agent', false);
+        // A live chat message means an agent took over, even if the assignment update was missed
+        if (event.event_type === 'livechat_message' && !payload.replayed && (this.handoffState === 'requested' || this.handoffState === 'queued')) {
+          this.setHandoffState({ state: 'assigned' });
+        }
+        break;
+      }
+    }
+
+    if (TRANSCRIPT_EVENT_SENDERS[event.event_type]) {
+      this.cacheTranscriptEntry(event.event_type, event.event_payload);
+    }
+
+    this.emit(event.event_type, event.event_payload);
+  }
+
+  /**
+   * Aggregates streamed bot message events. Each step is emitted to onMessageStream listeners;
+   * on 'end' the complete message is delivered as a regular bot_message, so onMessage consumers keep working.
+   * @param eventType - 'bot_message_start', 'bot_message_delta' or 'bot_message_end'.
+   * @param payload - The event payload ({ conversation_id, message_id, delta?, content? }).
+   */
+  private handleStreamEvent(eventType: 'bot_message_start' | 'bot_message_delta' | 'bot_message_end', payload: MessageStreamPayload): void {
+    const messageId = getEntryMessageId(payload);
+    if (!messageId || this.seenMessageIds.has(messageId)) {
+      return;
+    }
+
+    if (eventType === 'bot_message_start') {
+      this.activeStreams.set(messageId, '');
+      this.emitStream({ type: 'start', messageId, text: '' });
+      return;
+    }
+
+    // Tolerate a missing start event
+    const previousText = this.activeStreams.get(messageId) ?? '';
+
+    if (eventType === 'bot_message_delta') {
+      const delta = payload.delta ?? (payload.content as { text?: string } | undefined)?.text ?? '';
+      const text = previousText + delta;
+      this.activeStreams.set(messageId, text);
+      this.emitStream({ type: 'delta', messageId, delta, text });
+      return;
+    }
+
+    this.activeStreams.delete(messageId);
+    const content: AgentMessageContent = payload.content ?? { type: 'text', text: previousText };
+    const finalText = (content as { text?: unknown }).text;
+    const text = typeof finalText === 'string' ? finalText : previousText;
+    this.emitStream({ type: 'end', messageId, text, content });
+    const botMessage: AgentMessagePayload = { ...payload, conversation_id: this.conversationId, message_id: messageId, content };
+    this.handleMessage({ event_type: 'bot_message', event_payload: botMessage });
+  }
+
+  /**
+   * Emits a confirmation when an event echoes a message sent by this client.
+   * @param payload - The event payload.
+   */
+  private confirmEcho(payload: any): void {
+    const clientMsgId = payload?.client_msg_id;
+    if (typeof clientMsgId !== 'string') {
+      return;
+    }
+    this.updateMessageStatus(clientMsgId, 'delivered', payload.message_id);
+    if (!this.unconfirmedClientMessageIds.delete(clientMsgId)) {
+      return;
+    }
+    const confirmation: MessageConfirmation = { clientMsgId, messageId: payload.message_id, content: payload.content };
+    this.emit('message_confirmed', confirmation);
+  }
+
+  /**
+   * Records whether an agent is typing and notifies onTyping listeners when it changes.
+   * A typing agent is reported as stopped after AGENT_TYPING_TIMEOUT_MS without further events.
+   * @param agentType - The kind of agent.
+   * @param isTyping - Whether the agent is typing.
+   * @param agentName - Display name of the agent, if known.
+   */
+  private setAgentTyping(agentType: AgentType, isTyping: boolean, agentName?: string): void {
+    const wasTyping = this.agentTypingTimers.has(agentType);
+    clearTimeout(this.agentTypingTimers.get(agentType));
+    this.agentTypingTimers.delete(agentType);
+    if (isTyping) {
+      this.agentTypingTimers.set(agentType, setTimeout(() => this.setAgentTyping(agentType, false), AGENT_TYPING_TIMEOUT_MS));
+    }
+    if (isTyping !== wasTyping) {
+      const event: TypingEvent = { agentType, isTyping, agentName };
+      this.emit('typing_change', event);
+    }
+  }
+
+  /**
+   * Moves the handoff state according to a livechat conversation update.
+   * @param payload - The conversation_update payload.
+   */
+  private applyHandoffUpdate(payload: ConversationUpdatePayload): void {
+    const state = HANDOFF_UPDATE_STATES[payload.type];
+    if (!state) {
+      return;
+    }
+    const data = payload.data || {};
+    const queuePosition = Number(data.position ?? data.queue_position);
+    this.setHandoffState({
+      state,
+      agent: state === 'assigned' ? this.getAgentInfo(data) : undefined,
+      queuePosition: state === 'queued' && !Number.isNaN(queuePosition) ? queuePosition : undefined,
+      reason: typeof data.reason === 'string' ? data.reason : undefined,
+      data: payload.data,
+    });
+  }
+
+  /**
+   * Sets the handoff state and notifies onHandoffStateChange listeners.
+   * Repeated updates are delivered too when they carry new details (e.g. a new queue position or agent).
+   * @param change - The new state and its details.
+   */
+  private setHandoffState(change: Omit<HandoffStateChange, 'previousState'>): void {
+    const previousState = this.handoffState;
+    if (change.state === previousState && change.data === undefined) {
+      return;
+    }
+    this.handoffState = change.state;
+    const event: HandoffStateChange = { ...change, previousState };
+    this.emit('handoff_state_change', event);
+    this.notifyStateChange();
+  }
+
+  /**
+   * Extracts the agent described by livechat update data (`agent` object or `agent_id` / `agent_name`).
+   * @param data - The conversation_update data.
+   */
+  private getAgentInfo(data: any): HandoffAgent | undefined {
+    if (data?.agent && typeof data.agent === 'object') {
+      return data.agent;
+    }
+    if (data?.agent_id === undefined && data?.agent_name === undefined) {
+      return undefined;
+    }
+    return { id: data.agent_id, name: data.agent_name };
+  }
+
+  /**
+   * Applies a delivery or read receipt to the matching sent message.
+   * @param payload - The message_status payload.
+   */
+  private handleStatusReceipt(payload: MessageStatusPayload): void {
+    let clientMsgId = payload.client_msg_id;
+    if (!clientMsgId && payload.message_id) {
+      this.sentMessages.forEach((handle) => {
+        if (handle.messageId === payload.message_id) {
+          clientMsgId = handle.clientMsgId;
+        }
+      });
+    }
+    if (clientMsgId && (payload.status === 'delivered' || payload.status === 'read')) {
+      this.updateMessageStatus(clientMsgId, payload.status, payload.message_id);
+    }
+  }
+
+  /**
+   * Updates the status of a sent message and notifies onMessageStatus listeners if it changed.
+   * Messages that are no longer tracked are ignored.
+   * @param clientMsgId - The client message ID.
+   * @param status - The reported status.
+   * @param messageId - The server message ID, if reported.
+   */
+  private updateMessageStatus(clientMsgId: string, status: MessageStatus, messageId?: string): void {
+    const update = this.sentMessages.get(clientMsgId)?.update(status, messageId);
+    if (update) {
+      this.emit('message_status_update', update);
+    }
+  }
+
+  /**
+   * Creates the handle of a message about to be sent, so its echo and acknowledgements can be matched.
+   * @param clientMsgId - The client message ID.
+   * @returns The message handle.
+   */
+  private trackSentMessage(clientMsgId: string): MessageHandle {
+    const handle = this.sentMessages.get(clientMsgId) ||
+      new MessageHandle(clientMsgId, (messageId, content) => this.editMessage(messageId, content));
+    this.sentMessages.set(clientMsgId, handle);
+    this.unconfirmedClientMessageIds.add(clientMsgId);
+    if (this.sentMessages.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.sentMessages.keys().next().value;
+      if (oldest !== undefined) {
+        this.sentMessages.delete(oldest);
+      }
+    }
+    if (this.unconfirmedClientMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+      const oldest = this.unconfirmedClientMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.unconfirmedClientMessageIds.delete(oldest);
+      }
+    }
+    return handle;
+  }
+
+  /**
+   * Returns the caller-supplied client message ID, or a new one.
+   * @param clientMsgId - The ID passed by the caller, if any.
+   */
+  private resolveClientMessageId(clientMsgId?: string): string {
+    if (clientMsgId === undefined) {
+      return generateClientMessageId();
+    }
+    if (typeof clientMsgId !== 'string' || clientMsgId.trim() === '') {
+      throw new CaptivateValidationError('clientMsgId must be a non-empty string.');
+    }
+    return clientMsgId;
+  }
+
+  private emitStream(event: MessageStreamEvent): void {
+    this.emit('message_stream', event);
+  }
+
+  /**
+   * Invokes the listeners registered for an event type.
+   * @param eventType - The event type.
+   * @param payload - The event payload.
+   */
+  private emit(eventType: string, payload: any): void {
+    this.listeners.get(eventType)?.forEach((callback) => callback(payload));
+  }
+
+  /**
+   * Restarts WebSocket listeners for real-time communication.
+   * Registers this conversation with the dispatcher if it is not registered yet.
+   */
+  public restartListeners() {
+    if (!this.unregisterHandler) {
+      this.unregisterHandler = this.dispatcher.register(this.conversationId, this.handleMessage.bind(this));
+    }
+  }
+
+  /**
+   * Re-attaches this conversation after the owning API instance reconnected.
+   * Updates the socket ID used for HTTP requests and re-registers the WebSocket event handler,
+   * so callbacks registered with onMessage, onActionReceived, etc. keep firing.
+   * @param socketId - The socket ID of the new connection.
+   */
+  public rebind(socketId: string | null): void {
+    this.socketId = socketId;
+    this.unregisterHandler?.();
+    this.unregisterHandler = null;
+    this.restartListeners();
+    // Streams cut off by the disconnect never receive their end event; the catch-up delivers the complete messages
+    this.activeStreams.clear();
+    captivateLogger.log(`Conversation ${this.conversationId} re-bound to socket ${socketId}`);
+
+    if (MESSAGE_EVENT_TYPES.some((eventType) => this.listeners.has(eventType))) {
+      this.catchUpMissedMessages();
+    }
+    this.outbox?.flush().catch((error) => captivateLogger.error('Failed to flush outbox:', error));
+  }
+
+  /**
+   * Enables the offline outbox for this conversation. Messages, actions and metadata updates that cannot be sent
+   * because the network or backend is unavailable are queued and sent in order on the next reconnect or send,
+   * instead of rejecting. Items left over from a previous session are restored from storage.
+   * @param options - Outbox settings.
+   */
+  public enableOutbox(options: OutboxOptions = {}): void {
+    if (this.outbox) {
+      return;
+    }
+    this.outbox = new Outbox(`captivate-outbox:${this.conversationId}`, (message) => this.sendAndTrack(message), options);
+    this.outbox.onChange((item) => {
+      if (item.kind === 'message' && (item.status === 'queued' || item.status === 'failed')) {
+        this.updateMessageStatus(item.id, item.status);
+      }
+    });
+    if (this.socketId) {
+      this.outbox.flush().catch((error) => captivateLogger.error('Failed to flush outbox:', error));
+    }
+  }
+
+  /**
+   * Enables the local transcript cache for this conversation. getTranscript() then serves the cached transcript
+   * instantly and revalidates it in the background; live messages are added to the cached transcript as they arrive.
+   * @param cache - The cache shared by the owning API instance.
+   */
+  public enableCache(cache: ChatCache): void {
+    this.cache = cache;
+  }
+
+  /**
+   * Gets the outgoing items that have not been sent yet, oldest first, to show them as pending or failed.
+   * @returns A snapshot of the outbox items (empty when the outbox is disabled).
+   */
+  public getOutbox(): OutboxItem[] {
+    return this.outbox ? this.outbox.getItems() : [];
+  }
+
+  /**
+   * Registers a listener invoked whenever an outbox item changes status (queued, sending, sent or failed).
+   * @param callback - Invoked with the changed item and a snapshot of all pending items.
+   * @returns A function that removes the listener.
+   */
+  public onOutboxChange(callback: OutboxListener): () => void {
+    if (!this.outbox) {
+      throw new CaptivateValidationError('The outbox is not enabled for this conversation.');
+    }
+    return this.outbox.onChange(callback);
+  }
+
+  /**
+   * Sends the queued outbox items now, in order.
+   * @returns A promise that resolves when the queue is empty or paused by a network failure.
+   */
+  public async flushOutbox(): Promise<void> {
+    await this.outbox?.flush();
+  }
+
+  /**
+   * Queues a failed outbox item again and sends it.
+   * @param id - The item ID (the client_msg_id of a message).
+   */
+  public async retryOutboxItem(id: string): Promise<void> {
+    await this.outbox?.retry(id);
+  }
+
+  /**
+   * Removes an outbox item that has not been sent.
+   * @param id - The item ID (the client_msg_id of a message).
+   */
+  public async discardOutboxItem(id: string): Promise<void> {
+    await this.outbox?.discard(id);
+  }
+
+  /**
+   * Delivers agent messages sent since the last seen message to the message listeners, in order and flagged as replayed.
+   * Runs automatically after every reconnect; call it after restore() to catch up on messages sent while the app was closed.
+   * @returns A promise that resolves once the missed messages have been delivered. Failures are logged, not thrown.
+   */
+  public async catchUp(): Promise<void> {
+    await this.catchUpMissedMessages();
+  }
+
+  /**
+   * Captures the client-side state of the conversation (metadata snapshot, lifecycle status, handoff state
+   * and last seen message) as plain JSON-serializable data.
+   * @returns The serialized state.
+   */
+  public serialize(): SerializedConversation {
+    return {
+      conversationId: this.conversationId,
+      metadata: { ...this.metadata },
+      status: this.status,
+      handoffState: this.handoffState,
+      lastSeenMessageId: this.lastSeenMessageId,
+      lastSeenTimestamp: this.lastSeenTimestamp,
+    };
+  }
+
+  /**
+   * Restores state captured with serialize(), e.g. after a page reload. Listeners are not notified;
+   * call catchUp() afterwards to receive the messages sent since the last seen one.
+   * @param state - The serialized state of this conversation.
+   * @throws CaptivateValidationError if the state belongs to another conversation.
+   */
+  public restore(state: SerializedConversation): void {
+    if (state?.conversationId !== this.conversationId) {
+      throw new CaptivateValidationError(`Cannot restore the state of conversation ${state?.conversationId} into ${this.conversationId}.`);
+    }
+    this.metadata = { ...this.metadata, ...state.metadata };
+    this.status = state.status || this.status;
+    this.handoffState = state.handoffState || this.handoffState;
+    if (state.lastSeenMessageId) {
+      this.lastSeenMessageId = state.lastSeenMessageId;
+      this.seenMessageIds.add(state.lastSeenMessageId);
+    }
+    if (typeof state.lastSeenTimestamp === 'number') {
+      this.lastSeenTimestamp = state.lastSeenTimestamp;
+    }
+  }
+
+  /**
+   * Registers a listener invoked whenever the serializable state changes: a message was seen,
+   * or the metadata, lifecycle status or handoff state changed.
+   * @param callback - Invoked with the new state.
+   * @returns A function that removes the listener.
+   */
+  public onStateChange(callback: (state: SerializedConversation) => void): () => void {
+    return this.track('stateChange', callback, [
+      this.addListener('state_change', callback),
+    ]);
+  }
+
+  private notifyStateChange(): void {
+    if (this.listeners.has('state_change')) {
+      this.emit('state_change', this.serialize());
+    }
+  }
+
+  /**
+   * Fetches the transcript and delivers agent messages sent since the last seen message, in order,
+   * flagged as replayed. Live messages arriving meanwhile are held back and delivered afterwards.
+   */
+  private async catchUpMissedMessages(): Promise<void> {
+    if (this.pendingMessageEvents || !this.apiKey) {
+      return;
+    }
+    this.pendingMessageEvents = [];
+
+    try {
+      const transcript = await this.fetchTranscript();
+      const missed = this.findMissedEntries(transcript);
+      if (missed.length > 0) {
+        captivateLogger.log(`Replaying ${missed.length} missed message(s) for conversation ${this.conversationId}`);
+      }
+      for (const entry of missed) {
+        const messageId = getEntryMessageId(entry);
+        this.markSeen(messageId, getEntryTimestamp(entry) ?? this.lastSeenTimestamp);
+        this.emit(this.getMessageEventType(entry)!, {
+          conversation_id: this.conversationId,
+          message_id: messageId,
+          content: entry.content ?? { type: 'text', text: entry.text ?? '' },
+          replayed: true,
+        });
+      }
+    } catch (error) {
+      captivateLogger.error(`Failed to catch up on missed messages for conversation ${this.conversationId}:`, error);
+    } finally {
+      const pending = this.pendingMessageEvents || [];
+      this.pendingMessageEvents = null;
+      pending.forEach((message) => this.handleMessage(message));
+    }
+  }
+
+  /**
+   * Selects the agent messages of a transcript that were not delivered yet.
+   * Entries after the last seen message ID are used when that ID is in the transcript;
+   * otherwise entries newer than the last seen timestamp.
+   * @param transcript - The raw transcript entries.
+   * @returns The missed entries, oldest first.
+   */
+  private findMissedEntries(transcript: any[]): any[] {
+    const lastSeenIndex = this.lastSeenMessageId
+      ? transcript.findIndex((entry) => getEntryMessageId(entry) === this.lastSeenMessageId)
+      : -1;
+
+    const candidates = lastSeenIndex >= 0
+      ? transcript.slice(lastSeenIndex + 1)
+      : transcript.filter((entry) => {
+        const timestamp = getEntryTimestamp(entry);
+        return timestamp !== undefined && timestamp > this.lastSeenTimestamp;
+      });
+
+    return candidates.filter((entry) => {
+      const messageId = getEntryMessageId(entry);
+      return this.getMessageEventType(entry) !== null && !(messageId && this.seenMessageIds.has(messageId));
+    });
+  }
+
+  /**
+   * Records a delivered message as the latest one seen.
+   */
+  private markSeen(messageId: string | undefined, timestamp: number): void {
+    if (messageId) {
+      this.lastSeenMessageId = messageId;
+      this.seenMessageIds.add(messageId);
+      if (this.seenMessageIds.size > MAX_SEEN_MESSAGE_IDS) {
+        this.seenMessageIds.delete(this.seenMessageIds.values().next().value as string);
+      }
+    }
+    this.lastSeenTimestamp = Math.max(this.lastSeenTimestamp, timestamp);
+    this.notifyStateChange();
+  }
+
+  /**
+   * Maps a transcript entry's sender to the WebSocket event type it would have arrived as.
+   * @returns 'bot_message', 'livechat_message', or null for user messages and unknown senders.
+   */
+  private getMessageEventType(entry: any): string | null {
+    const sender = getEntrySender(entry);
+    if (sender === 'ai_agent') {
+      return 'bot_message';
+    }
+    if (sender === 'human_agent') {
+      return 'livechat_message';
+    }
+    return null;
+  }
+
+  /**
+   * Adds an event listener for a specific event type.
+   * @param eventType - The type of event to listen for.
+   * @param callback - The function to invoke when the event occurs.
+   * @returns A function that removes the listener.
+   */
+  private addListener(eventType: string, callback: Function): () => void {
+    this.restartListeners();
+    if (!this.listeners.has(eventType)) {
+      this.listeners.set(eventType, []);
+    }
+    this.listeners.get(eventType)?.push(callback);
+    return () => this.removeListener(eventType, callback);
+  }
+
+  /**
+   * Records the internal listeners created for a public callback so they can be removed together.
+   * @param eventName - The public event name.
+   * @param callback - The callback passed by the caller.
+   * @param unsubscribers - Functions removing the internal listeners.
+   * @returns A function that removes all of them. Calling it more than once has no effect.
+   */
+  private track(eventName: ConversationEventName, callback: Function, unsubscribers: Array<() => void>): () => void {
+    const key = this.onceCallbacks.get(callback) || callback;
+    if (!this.subscriptions.has(eventName)) {
+      this.subscriptions.set(eventName, new Map());
+    }
+    const registrations = this.subscriptions.get(eventName)!;
+    let active = true;
+
+    const unsubscribe = () => {
+      if (!active) {
+        return;
+      }
+      active = false;
+      unsubscribers.forEach((fn) => fn());
+      const remaining = (registrations.get(key) || []).filter((fn) => fn !== unsubscribe);
+      if (remaining.length > 0) {
+        registrations.set(key, remaining);
+      } else {
+        registrations.delete(key);
+      }
+    };
+
+    registrations.set(key, [...(registrations.get(key) || []), unsubscribe]);
+    return unsubscribe;
+  }
+
+  /**
+   * Registers a listener by event name. Equivalent to calling the matching on* method (onMessage, onMessageStream, onActionReceived, ...).
+   * @param eventName - A key of ConversationEventMap, which also gives the callback signature of each event.
+   * @param callback - The function to handle the event.
+   * @returns A function that removes the listener.
    */
-  private handleMessage(event: MessageEvent) {
-    
-    const message = JSON.parse(event.data);
-    const eventType = message.event?.event_type;
-    if (eventType && this.listeners.has(eventType)) {
-      const payload = message.event.event_payload;
-      this.listeners.get(eventType)?.forEach((callback) => callback(payload));
+  public on<K extends ConversationEventName>(eventName: K, callback: ConversationEventMap[K]): () => void {
+    switch (eventName) {
+      case 'message':
+        return this.onMessage(callback as ConversationEventMap['message']);
+      case 'actionReceived':
+        return this.onActionReceived(callback as ConversationEventMap['actionReceived']);
+      case 'conversationUpdate':
+        return this.onConversationUpdate(callback as ConversationEventMap['conversationUpdate']);
+      case 'error':
+        return this.onError(callback as ConversationEventMap['error']);
+      case 'messageStream':
+        return this.onMessageStream(callback as ConversationEventMap['messageStream']);
+      case 'messageConfirmed':
+        return this.onMessageConfirmed(callback as ConversationEventMap['messageConfirmed']);
+      case 'messageStatus':
+        return this.onMessageStatus(callback as ConversationEventMap['messageStatus']);
+      case 'typing':
+        return this.onTyping(callback as ConversationEventMap['typing']);
+      case 'agentPresence':
+        return this.onAgentPresence(callback as ConversationEventMap['agentPresence']);
+      case 'handoffStateChange':
+        return this.onHandoffStateChange(callback as ConversationEventMap['handoffStateChange']);
+      case 'transcriptUpdate':
+        return this.onTranscriptUpdate(callback as ConversationEventMap['transcriptUpdate']);
+      case 'stateChange':
+        return this.onStateChange(callback as ConversationEventMap['stateChange']);
+      default:
+        throw new CaptivateValidationError(`Unknown event name "${eventName}".`);
     }
   }
 
   /**
-   * Restarts WebSocket listeners for real-time communication.
+   * Registers a listener that is removed after it fires once.
+   * @param eventName - A key of ConversationEventMap.
+   * @param callback - The function to handle the event.
+   * @returns A function that removes the listener if it has not fired yet.
    */
-  public restartListeners() {
-    // Listen to WebSocket messages and handle events.
-    this.socket.onmessage = this.handleMessage.bind(this);
+  public once<K extends ConversationEventName>(eventName: K, callback: ConversationEventMap[K]): () => void {
+    let unsubscribe: () => void = () => {};
+    let fired = false;
+    const wrapper = (...args: unknown[]) => {
+      if (fired) {
+        return;
+      }
+      fired = true;
+      unsubscribe();
+      (callback as Function)(...args);
+    };
+    this.onceCallbacks.set(wrapper, callback);
+    unsubscribe = this.on(eventName, wrapper as ConversationEventMap[K]);
+    return unsubscribe;
   }
 
   /**
-   * Adds an event listener for a specific event type.
-   * @param eventType - The type of event to listen for.
-   * @param callback - The function to invoke when the event occurs.
+   * Removes every registration of a callback for an event, including ones made with once().
+   * @param eventName - A key of ConversationEventMap.
+   * @param callback - The callback that was registered.
    */
-  private addListener(eventType: string, callback: Function): void {
-    this.restartListeners();
-    if (!this.listeners.has(eventType)) {
-      this.listeners.set(eventType, []);
-    }
-    this.listeners.get(eventType)?.push(callback);
+  public off<K extends ConversationEventName>(eventName: K, callback: ConversationEventMap[K]): void {
+    const unsubscribers = this.subscriptions.get(eventName)?.get(callback);
+    unsubscribers?.slice().forEach((unsubscribe) => unsubscribe());
+  }
+
+  /**
+   * Returns an async iterable of incoming messages, as delivered to onMessage (including large messages
+   * fetched from a 413 message_link and replayed messages). Messages are buffered from the moment this is called.
+   * Stop the iteration (e.g. `break` out of `for await`) to remove the underlying listener.
+   * @returns An async iterable iterator of incoming messages.
+   */
+  public messages(): AsyncIterableIterator<IncomingMessage> {
+    const queue: IncomingMessage[] = [];
+    // Pending next() calls, resolved in call order
+    const waiting: Array<(result: IteratorResult<IncomingMessage>) => void> = [];
+    let closed = false;
+
+    const unsubscribe = this.onMessage((content, type, details) => {
+      const message = { content, type, details } as IncomingMessage;
+      const resolve = waiting.shift();
+      if (resolve) {
+        resolve({ value: message, done: false });
+      } else {
+        queue.push(message);
+      }
+    });
+
+    const close = (): Promise<IteratorResult<IncomingMessage>> => {
+      closed = true;
+      unsubscribe();
+      queue.length = 0;
+      waiting.splice(0).forEach((resolve) => resolve({ value: undefined, done: true }));
+      return Promise.resolve({ value: undefined, done: true });
+    };
+
+    return {
+      next: (): Promise<IteratorResult<IncomingMessage>> => {
+        if (queue.length > 0) {
+          return Promise.resolve({ value: queue.shift()!, done: false });
+        }
+        if (closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          waiting.push(resolve);
+        });
+      },
+      return: close,
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Removes all listeners registered through on*, on(), once(), or only those of one event.
+   * @param eventName - The event whose listeners to remove. Removes all events when omitted.
+   */
+  public removeAllListeners(eventName?: ConversationEventName): void {
+    const eventNames = eventName ? [eventName] : [...this.subscriptions.keys()];
+    eventNames.forEach((name) => {
+      const registrations = this.subscriptions.get(name);
+      registrations?.forEach((unsubscribers) => unsubscribers.slice().forEach((unsubscribe) => unsubscribe()));
+      this.subscriptions.delete(name);
+    });
   }
 
   /**
    * Registers a listener for messages from the bot or live chat.
+   * Messages missed while the socket was disconnected are delivered after reconnecting, with `details.replayed` set.
    * @param callback - The function to handle incoming messages.
+   * @returns A function that removes the listener.
    */
-  public onMessage(callback: (message: string, type: string) => void): void {
-    this.addListener('bot_message', (payload: any) => callback(payload.content, 'ai_agent'));
-    this.addListener('livechat_message', (payload: any) => callback(payload.content, 'human_agent'));
+  public onMessage(callback: MessageCallback): () => void {
+    const getDetails = (payload: AgentMessagePayload): MessageDetails => ({
+      replayed: payload.replayed === true,
+      messageId: getEntryMessageId(payload),
+    });
+    const unsubscribers = [
+      this.addListener('bot_message', (payload: AgentMessagePayload) => callback(payload.content, 'ai_agent', getDetails(payload))),
+      this.addListener('livechat_message', (payload: AgentMessagePayload) => callback(payload.content, 'human_agent', getDetails(payload))),
+    ];
 
     // Handle large messages that are too big for WebSocket usually from AI Agents
-    this.addListener('general_error', async (payload: any) => {
+    unsubscribers.push(this.addListener('general_error', async (payload: GeneralErrorPayload) => {
 
       if (payload.error_code === 413 && payload.message_link) {
         try {
-          const response = await fetch(payload.message_link, {
-            method: 'GET',
-            headers: {
-              'x-api-key': this.apiKey,
-              'Accept': 'application/json'
-            }
-          });
-          if (!response.ok) {
-            throw new Error(`Failed to fetch large message: ${response.status} ${response.statusText}`);
-          }
-          const messageData = await response.json();
-          callback(messageData.botMessage.content, 'ai_agent');
+          const messageData = this.dispatcher.getValidator().checkHttpResponse('large_message',
+            await this.transport.request<{ botMessage: { content: AgentMessageContent } }>(payload.message_link, {
+              headers: {
+                'x-api-key': this.apiKey,
+                'Accept': 'application/json'
+              }
+            }),
+            payload.message_link
+          );
+          callback(messageData.botMessage.content, 'ai_agent', { replayed: false });
         } catch (error: any) {
           console.error('Error fetching large message:', error);
-          callback(`[Error fetching large message: ${error.message}]`, 'error');
+          callback(`[Error fetching large message: ${error.message}]`, 'error', { replayed: false });
         }
       } else {
         // Handle other general errors
-        callback(`[Error: ${payload.error_desc || 'Unknown error'}]`, 'error');
+        callback(`[Error: ${payload.error_desc || 'Unknown error'}]`, 'error', { replayed: false });
       }
-    });
+    }));
+
+    return this.track('message', callback, unsubscribers);
   }
 
   /**
    * Registers a listener for receiving actions.
    * @param callback - The function to handle incoming action.
+   * @returns A function that removes the listener.
    */
-  public onActionReceived(callback: (actions: [Action]) => void): void {
-    this.addListener('action', (payload: any) => callback(payload.actions));
+  public onActionReceived(callback: (actions: Action[]) => void): () => void {
+    return this.track('actionReceived', callback, [
+      this.addListener('action', (payload: ActionPayload) => callback(payload.actions)),
+    ]);
   }
 
   /**
    * Registers a listener for updates to the conversation.
    * @param callback - The function to handle conversation updates.
+   * @returns A function that removes the listener.
+   */
+  public onConversationUpdate(callback: (update: ConversationUpdate) => void): () => void {
+    return this.track('conversationUpdate', callback, [
+      this.addListener('conversation_update', (payload: ConversationUpdatePayload) => {
+        callback({
+          type: payload.type,
+          conversationId: payload.conversation_id,
+          data: payload.data,
+        });
+      }),
+    ]);
+  }
+
+  /**
+   * Registers a listener for bot messages streamed token by token (start, delta and end events keyed by message ID).
+   * The complete message is also delivered to onMessage when the stream ends.
+   * @param callback - The function to handle stream events.
+   * @returns A function that removes the listener.
+   */
+  public onMessageStream(callback: (event: MessageStreamEvent) => void): () => void {
+    return this.track('messageStream', callback, [
+      this.addListener('message_stream', callback),
+    ]);
+  }
+
+  /**
+   * Registers a listener for server echoes of messages sent by this client, to reconcile optimistic
+   * UI bubbles (keyed by the client_msg_id returned from sendMessage) with confirmed messages.
+   * @param callback - The function to handle confirmations.
+   * @returns A function that removes the listener.
+   */
+  public onMessageConfirmed(callback: (confirmation: MessageConfirmation) => void): () => void {
+    return this.track('messageConfirmed', callback, [
+      this.addListener('message_confirmed', callback),
+    ]);
+  }
+
+  /**
+   * Registers a listener for status changes of messages sent by this client
+   * (queued, sent, delivered, read or failed), e.g. to show checkmarks.
+   * @param callback - The function to handle status updates.
+   * @returns A function that removes the listener.
+   */
+  public onMessageStatus(callback: (update: MessageStatusUpdate) => void): () => void {
+    return this.track('messageStatus', callback, [
+      this.addListener('message_status_update', callback),
+    ]);
+  }
+
+  /**
+   * Registers a listener for bot and human agent typing indicators.
+   * Fires when an agent starts or stops typing; an agent message or a missing stop event also ends the indicator.
+   * @param callback - The function to handle typing changes.
+   * @returns A function that removes the listener.
+   */
+  public onTyping(callback: (event: TypingEvent) => void): () => void {
+    return this.track('typing', callback, [
+      this.addListener('typing_change', callback),
+    ]);
+  }
+
+  /**
+   * Registers a listener for human agents joining or leaving the live chat,
+   * surfaced from `livechat_joined` and `livechat_left` conversation updates.
+   * @param callback - The function to handle presence changes.
+   * @returns A function that removes the listener.
+   */
+  public onAgentPresence(callback: (event: AgentPresenceEvent) => void): () => void {
+    return this.track('agentPresence', callback, [
+      this.addListener('conversation_update', (payload: ConversationUpdatePayload) => {
+        if (payload.type !== 'livechat_joined' && payload.type !== 'livechat_left') {
+          return;
+        }
+        const agentName = this.getAgentInfo(payload.data)?.name;
+        callback({
+          status: payload.type === 'livechat_joined' ? 'joined' : 'left',
+          agentName: typeof agentName === 'string' ? agentName : undefined,
+          data: payload.data,
+        });
+      }),
+    ]);
+  }
+
+  /**
+   * Asks for the conversation to be handed over to a human agent.
+   * The state becomes 'requested' once the request is sent, then follows the backend through onHandoffStateChange.
+   * @param reason - Optional reason shown to the agent.
+   * @returns A promise that resolves when the request is sent.
+   */
+  public async requestHumanAgent(reason?: string): Promise<void> {
+    await this.sendAction('livechat_request', reason ? { reason } : {});
+    this.setHandoffState({ state: 'requested', reason });
+  }
+
+  /**
+   * Cancels a pending request for a human agent or ends the live chat session.
+   * @returns A promise that resolves when the request is sent.
+   */
+  public async endLivechat(): Promise<void> {
+    await this.sendAction('livechat_end');
+    this.setHandoffState({ state: 'ended' });
+  }
+
+  /**
+   * Gets the current stage of the handoff to a human agent.
+   * @returns 'none', 'requested', 'queued', 'assigned' or 'ended'.
+   */
+  public getHandoffState(): HandoffState {
+    return this.handoffState;
+  }
+
+  /**
+   * Registers a listener for handoff state changes: requested, queued (with the queue position),
+   * assigned (with agent info) and ended.
+   * @param callback - The function to handle state changes.
+   * @returns A function that removes the listener.
+   */
+  public onHandoffStateChange(callback: (change: HandoffStateChange) => void): () => void {
+    return this.track('handoffStateChange', callback, [
+      this.addListener('handoff_state_change', callback),
+    ]);
+  }
+
+  /**
+   * Registers a listener for changes of the cached transcript: a background revalidation finished
+   * or a live message was added. Only fires when the cache is enabled.
+   * @param callback - Invoked with the updated raw transcript.
+   * @returns A function that removes the listener.
+   */
+  public onTranscriptUpdate(callback: (transcript: object[]) => void): () => void {
+    return this.track('transcriptUpdate', callback, [
+      this.addListener('transcript_update', callback),
+    ]);
+  }
+
+  /**
+   * Tells the agent the user is typing. Call it on every keystroke: signals are throttled, and the user is
+   * reported as stopped after a few seconds without calls, or when stopTyping() or sendMessage() is called.
+   * Typing is best-effort, so send failures are logged rather than thrown.
+   */
+  public async startTyping(): Promise<void> {
+    if (this.typingIdleTimer) {
+      clearTimeout(this.typingIdleTimer);
+    }
+    this.typingIdleTimer = setTimeout(() => {
+      this.stopTyping();
+    }, TYPING_IDLE_MS);
+
+    const now = Date.now();
+    if (this.isTyping && now - this.typingSentAt < TYPING_THROTTLE_MS) {
+      return;
+    }
+    this.isTyping = true;
+    this.typingSentAt = now;
+    await this.sendTypingState(true);
+  }
+
+  /**
+   * Tells the agent the user stopped typing. Does nothing if the user is not reported as typing.
+   */
+  public async stopTyping(): Promise<void> {
+    const wasTyping = this.isTyping;
+    this.resetTyping();
+    if (wasTyping) {
+      await this.sendTypingState(false);
+    }
+  }
+
+  /**
+   * Clears the local typing state without notifying the server.
    */
-  public onConversationUpdate(callback: (update: any) => void): void {
-    this.addListener('conversation_update', (payload: any) => {
-      callback({
-        type: payload.type,
-        conversationId: payload.conversation_id,
-        data: payload.data,
+  private resetTyping(): void {
+    if (this.typingIdleTimer) {
+      clearTimeout(this.typingIdleTimer);
+      this.typingIdleTimer = null;
+    }
+    this.isTyping = false;
+  }
+
+  private async sendTypingState(isTyping: boolean): Promise<void> {
+    try {
+      await this.sendPayload('user_typing', {
+        conversation_id: this.conversationId,
+        is_typing: isTyping,
       });
-    });
+    } catch (error) {
+      captivateLogger.log('Failed to send typing state:', error);
+    }
   }
 
   /**
    * Registers a listener for error events.
+   * The `error` property holds a typed error (CaptivateServerError, CaptivateAuthError or CaptivateRateLimitError).
    * @param callback - The function to handle errors.
+   * @returns A function that removes the listener.
    */
-  public onError(callback: (error: any) => void): void {
-    this.addListener('general_error', (payload: any) => {
-      callback({
-        conversationId: payload.conversation_id,
-        errorCode: payload.error_code,
-        errorDesc: payload.error_desc,
-      });
-    });
+  public onError(callback: (error: ConversationErrorEvent) => void): () => void {
+    return this.track('error', callback, [
+      this.addListener('general_error', (payload: GeneralErrorPayload) => {
+        callback({
+          conversationId: payload.conversation_id,
+          errorCode: payload.error_code,
+          errorDesc: payload.error_desc || '',
+          error: createGeneralError(payload),
+        });
+      }),
+    ]);
   }
 
   /**
    * Sends a message to the conversation.
    * @param content - The message content to send.
-   * @returns A promise that resolves when the message is sent.
+   * @param options - Optional settings.
+   * @param options.clientMsgId - Client message ID to send instead of a generated UUID.
+   * @returns A promise that resolves to a handle of the message (client_msg_id, server message_id and status) once it is sent
+   * or, with the outbox enabled, queued.
    */
-  public async sendMessage(content: object | string): Promise<void> {
+  public async sendMessage(content: OutgoingMessageContent | string, options: SendMessageOptions = {}): Promise<MessageHandle> {
     // Check if content is a string and transform it into a default object
     if (typeof content === 'string') {
       content = { type: 'text', text: content };
     }
+    const clientMsgId = this.resolveClientMessageId(options.clientMsgId);
+    // Tracked before sending, as the echo can arrive before the HTTP response
+    const handle = this.trackSentMessage(clientMsgId);
+    // Sending ends typing on the server side
+    this.resetTyping();
 
-    return this.sendPayload('user_message', {
-      type: 'message_create',
-      client_msg_id: `unique-message-id-${Date.now()}`,
-      conversation_id: this.conversationId,
-      content,
+    try {
+      await this.sendPayload('user_message', {
+        type: 'message_create',
+        client_msg_id: clientMsgId,
+        conversation_id: this.conversationId,
+        content,
+      }, 'message');
+    } catch (error) {
+      this.updateMessageStatus(clientMsgId, 'failed');
+      throw error;
+    }
+    return handle;
+  }
+
+  /**
+   * Sends a message and waits for the next bot or live chat message in this conversation.
+   * Large replies delivered through a 413 message_link are fetched before resolving.
+   * @param content - The message content to send.
+   * @param options - Optional settings.
+   * @param options.timeout - Maximum time to wait for the reply, in milliseconds. Defaults to 30000.
+   * @param options.clientMsgId - Client message ID to send instead of a generated UUID.
+   * @returns A promise that resolves to the reply, or rejects with CaptivateTimeoutError if none arrives in time,
+   * or with the typed error of a general_error event received while waiting.
+   */
+  public async sendMessageAndWait(content: OutgoingMessageContent | string, options: { timeout?: number } & SendMessageOptions = {}): Promise<IncomingMessage> {
+    const { timeout = 30000, clientMsgId } = options;
+    const unsubscribers: Array<() => void> = [];
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    // Listen before sending so a fast reply cannot be missed
+    const reply = new Promise<IncomingMessage>((resolve, reject) => {
+      // Registered first so general errors reject with their typed error
+      unsubscribers.push(this.onError(({ errorCode, error }) => {
+        if (errorCode !== 413) {
+          reject(error);
+        }
+      }));
+      unsubscribers.push(this.onMessage((message, type, details) => {
+        if (type === 'error') {
+          // Only reached when fetching a 413 message_link failed
+          reject(new CaptivateServerError(String(message), {
+            status: 413,
+            eventType: 'general_error',
+            conversationId: this.conversationId,
+          }));
+          return;
+        }
+        // Messages caught up after a reconnect were sent before this one
+        if (details?.replayed) {
+          return;
+        }
+        resolve({ content: message, type, details } as IncomingMessage);
+      }));
+      timeoutId = setTimeout(() => {
+        reject(new CaptivateTimeoutError(`Timeout: No reply received within ${timeout}ms`, timeout));
+      }, timeout);
     });
+
+    // Avoid an unhandled rejection if the reply fails while the message is still being sent
+    reply.catch(() => {});
+
+    try {
+      await this.sendMessage(content, { clientMsgId });
+      return await reply;
+    } finally {
+      clearTimeout(timeoutId);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    }
   }
 
   
@@ -255,26 +1395,28 @@ export class Conversation {
   */
   public async setMetadata(metadata: object): Promise<void> {
     if (typeof metadata !== 'object' || metadata === null) {
-      throw new Error('Metadata must be a non-null object.');
+      throw new CaptivateValidationError('Metadata must be a non-null object.');
     }
 
-    const metadataRequest = {
+    const metadataRequest: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: 'metadata',
         event_payload: {
           metadata,
-          client_msg_id: `metadata-${Date.now()}`,
+          client_msg_id: generateClientMessageId(),
           conversation_id: this.conversationId,
         },
       },
     };
 
     // Send the metadata update request via HTTP and get response
-    const response = await this.sendPayloadViaHttp(metadataRequest);
+    const response = await this.deliver(metadataRequest, 'metadata');
     
     // The HTTP response confirms the metadata was set successfully
     captivateLogger.log('Metadata update confirmed via HTTP response:', response);
+    this.metadata = { ...this.metadata, ...metadata };
+    this.notifyStateChange();
   }
 
   /**
@@ -284,12 +1426,100 @@ export class Conversation {
  */
   public async setPrivateMetadata(privateMeta: object): Promise<void> {
     if (typeof privateMeta !== 'object' || privateMeta === null) {
-      throw new Error('Private metadata must be a non-null object.');
+      throw new CaptivateValidationError('Private metadata must be a non-null object.');
     }
     // Reuse the setMetadata logic, but wrap in { private: ... }
     return this.setMetadata({ private: privateMeta });
   }
 
+  /**
+   * Closes the conversation. The status is stored in the metadata, so closed conversations can be
+   * filtered with getUserConversations({ status: 'closed' }), and emitted as a conversation_closed update.
+   * @returns A promise that resolves when the status is updated.
+   */
+  public async close(): Promise<void> {
+    await this.changeStatus('closed', 'conversation_closed');
+  }
+
+  /**
+   * Reopens a closed or archived conversation, emitted as a conversation_reopened update.
+   * @returns A promise that resolves when the status is updated.
+   */
+  public async reopen(): Promise<void> {
+    await this.changeStatus('open', 'conversation_reopened');
+  }
+
+  /**
+   * Archives the conversation, emitted as a conversation_archived update.
+   * @returns A promise that resolves when the status is updated.
+   */
+  public async archive(): Promise<void> {
+    await this.changeStatus('archived', 'conversation_archived');
+  }
+
+  /**
+   * Gets the lifecycle status of the conversation.
+   * @returns 'open', 'closed' or 'archived'.
+   */
+  public getStatus(): ConversationStatus {
+    return this.status;
+  }
+
+  /**
+   * Submits feedback on the conversation (e.g. a CSAT score) or, with `messageId`, on a single bot message
+   * (e.g. thumbs up/down). Sent as the `submit_feedback` action and emitted as a feedback_submitted update.
+   * @param feedback - The rating, an optional comment and the optional ID of the rated message.
+   * @returns A promise that resolves when the feedback is sent.
+   */
+  public async submitFeedback(feedback: Feedback): Promise<void> {
+    const { rating, comment, messageId } = feedback || ({} as Feedback);
+    if (!(typeof rating === 'number' && Number.isFinite(rating)) && rating !== 'up' && rating !== 'down') {
+      throw new CaptivateValidationError("Feedback rating must be a number, 'up' or 'down'.");
+    }
+    if (comment !== undefined && typeof comment !== 'string') {
+      throw new CaptivateValidationError('Feedback comment must be a string.');
+    }
+
+    await this.sendAction('submit_feedback', {
+      rating,
+      ...(comment !== undefined ? { comment } : {}),
+      ...(messageId !== undefined ? { message_id: messageId } : {}),
+    });
+    this.emitConversationUpdate('feedback_submitted', { rating, comment, messageId });
+  }
+
+  /**
+   * Stores a new lifecycle status in the metadata and emits the matching conversation update.
+   * @param status - The new status.
+   * @param updateType - The conversation_update type to emit.
+   */
+  private async changeStatus(status: ConversationStatus, updateType: string): Promise<void> {
+    this.pendingStatusUpdate = { type: updateType, emitted: false, expiresAt: Infinity };
+    try {
+      await this.setMetadata({ status });
+    } catch (error) {
+      this.pendingStatusUpdate = null;
+      throw error;
+    }
+    // Skip the local update when the server's echo already arrived and was delivered
+    if (this.pendingStatusUpdate?.type !== updateType) {
+      return;
+    }
+    this.pendingStatusUpdate = null;
+    this.emitConversationUpdate(updateType, { status });
+    this.pendingStatusUpdate = { type: updateType, emitted: true, expiresAt: Date.now() + STATUS_ECHO_WINDOW_MS };
+  }
+
+  /**
+   * Delivers a conversation update produced by this client as if it came from the server.
+   * @param type - The update type.
+   * @param data - The update data.
+   */
+  private emitConversationUpdate(type: string, data: any): void {
+    const payload: ConversationUpdatePayload = { conversation_id: this.conversationId, type, data };
+    this.handleMessage({ event_type: 'conversation_update', event_payload: payload });
+  }
+
   /**
    * Sets the time-to-live (TTL) for the conversation path and updates metadata.
    * @param days - The number of days for the time-to-live.
@@ -297,7 +1527,7 @@ export class Conversation {
    */
   public async setTimeToLive(days: number): Promise<void> {
     // Use the file manager method to set path TTL
-    await CaptivateChatFileManager.setTimeToLive(this.apiKey, this.conversationId, days);
+    await CaptivateChatFileManager.setTimeToLive(this.apiKey, this.conversationId, days, this.endpoints.fileServiceBaseUrl);
     
     // Also set timeToLive as metadata
     await this.setMetadata({ timeToLive: days });
@@ -316,7 +1546,7 @@ export class Conversation {
       id: actionId,
       data,
       conversation_id: this.conversationId,
-    });
+    }, 'action');
     
     // The HTTP response confirms the action was sent successfully
     captivateLogger.log('Action sent confirmed via HTTP response:', response);
@@ -324,28 +1554,207 @@ export class Conversation {
 
   /**
    * Requests the transcript of the conversation with automatic file URL refresh.
-   * @returns A promise that resolves to the conversation transcript with refreshed file URLs.
+   * Without options, returns the entire transcript as raw entries. With options, returns one page of typed entries;
+   * only the entries of that page have their file URLs refreshed.
+   * When the cache is enabled, the full transcript is served from the cache and revalidated in the background
+   * once it is older than the cache's stale time; pages are always fetched from the server.
+   * @param options - Cursors (message IDs) and page size.
+   * @returns A promise that resolves to the raw transcript, or to the requested page.
+   */
+  public async getTranscript(): Promise<object[]>;
+  public async getTranscript(options: TranscriptPageOptions): Promise<TranscriptPage>;
+  public async getTranscript(options?: TranscriptPageOptions): Promise<object[] | TranscriptPage> {
+    if (options) {
+      return this.getTranscriptPage(options);
+    }
+    const cached = this.cache ? await this.cache.get<object[]>(this.getTranscriptCacheKey()) : null;
+    if (cached) {
+      if (this.cache!.isStale(cached)) {
+        this.revalidateTranscript();
+      }
+      return this.refreshExpiredFileUrls(cached.value);
+    }
+    return this.loadTranscript();
+  }
+
+  /**
+   * Fetches the transcript, refreshes expired file URLs and stores the result in the cache.
+   * @returns A promise that resolves to the transcript.
+   */
+  private async loadTranscript(): Promise<object[]> {
+    const transcript = await this.fetchTranscript();
+
+    // Refresh expired file URLs in the transcript
+    const refreshedTranscript = await this.refreshExpiredFileUrls(transcript);
+    await this.cache?.set(this.getTranscriptCacheKey(), refreshedTranscript);
+    return refreshedTranscript;
+  }
+
+  /**
+   * Reloads the cached transcript in the background and notifies onTranscriptUpdate listeners.
+   * Concurrent calls share the running revalidation; failures are logged and the cached transcript is kept.
+   */
+  private revalidateTranscript(): void {
+    if (this.transcriptRevalidation) {
+      return;
+    }
+    this.transcriptRevalidation = this.loadTranscript()
+      .then((transcript) => this.emit('transcript_update', transcript))
+      .catch((error) => captivateLogger.error(`Failed to revalidate transcript of conversation ${this.conversationId}:`, error))
+      .finally(() => {
+        this.transcriptRevalidation = null;
+      });
+  }
+
+  /**
+   * Adds a live message to the cached transcript, replacing an entry with the same message ID.
+   * Nothing is cached until the transcript has been loaded once.
+   * @param eventType - The message event type.
+   * @param payload - The event payload.
+   */
+  private cacheTranscriptEntry(eventType: string, payload: any): void {
+    if (!this.cache) {
+      return;
+    }
+    const entry = { from: TRANSCRIPT_EVENT_SENDERS[eventType], ...payload, timestamp: payload.timestamp ?? Date.now() };
+    const messageId = getEntryMessageId(entry);
+    this.cache.update<any[]>(this.getTranscriptCacheKey(), (transcript) => {
+      const index = messageId ? transcript.findIndex((existing) => getEntryMessageId(existing) === messageId) : -1;
+      return index >= 0
+        ? transcript.map((existing, i) => (i === index ? entry : existing))
+        : [...transcript, entry];
+    }).then((transcript) => {
+      if (transcript) {
+        this.emit('transcript_update', transcript);
+      }
+    });
+  }
+
+  private getTranscriptCacheKey(): string {
+    return `transcript:${this.conversationId}`;
+  }
+
+  /**
+   * Iterates over the transcript page by page. Pages newest-first from `before` (or from the latest entry)
+   * by default, or oldest-first from `after` when only `after` is given.
+   * If the server does not page the transcript, it is fetched once and paged locally for the whole iteration.
+   * Iteration stops, without yielding the repeated page, if the server ignores the cursor and returns the same page again.
+   * @param options - Starting cursor and page size.
+   * @param options.limit - Entries per page. Defaults to 50.
+   * @returns An async iterable of transcript pages.
+   */
+  public async *transcriptPages(options: TranscriptPageOptions = {}): AsyncGenerator<TranscriptPage, void, undefined> {
+    const forward = options.after !== undefined && options.before === undefined;
+    const loaded: { transcript?: any[] } = {};
+    let cursor: TranscriptPageOptions = { limit: 50, ...options };
+    while (true) {
+      const page = await this.getTranscriptPage(cursor, loaded);
+      const next = forward ? page.after : page.before;
+      if (next !== undefined && next === (forward ? cursor.after : cursor.before)) {
+        captivateLogger.warn(`Transcript paging of conversation ${this.conversationId} made no progress at cursor ${next}, stopping`);
+        return;
+      }
+      if (page.entries.length > 0) {
+        yield page;
+      }
+      if (!page.hasMore || !next) {
+        return;
+      }
+      cursor = forward ? { ...cursor, after: next } : { ...cursor, before: next };
+    }
+  }
+
+  /**
+   * Fetches one page of the transcript. Cursors and limit are sent to the server; if the response does not say
+   * whether more entries exist (has_more), the server is assumed to have returned the full transcript and it is paged here.
+   * @param options - Cursors and page size.
+   * @param loaded - Holds the full transcript once the server returned it unpaged, so later pages reuse it instead of refetching.
+   * @returns A promise that resolves to the page.
+   */
+  private async getTranscriptPage(options: TranscriptPageOptions, loaded: { transcript?: any[] } = {}): Promise<TranscriptPage> {
+    if (options.limit !== undefined && (!Number.isInteger(options.limit) || options.limit <= 0)) {
+      throw new CaptivateValidationError('Transcript limit must be a positive integer.');
+    }
+    let page: { entries: any[]; hasMore: boolean };
+    if (loaded.transcript) {
+      page = paginateTranscript(loaded.transcript, options);
+    } else {
+      const data = await this.requestTranscript(options);
+      const transcript: any[] = Array.isArray(data?.transcript) ? data.transcript : [];
+      const serverHasMore = data?.has_more ?? data?.pagination?.has_more ?? data?.pagination?.hasMore;
+      if (typeof serverHasMore === 'boolean') {
+        page = { entries: transcript, hasMore: serverHasMore };
+      } else {
+        loaded.transcript = transcript;
+        page = paginateTranscript(transcript, options);
+      }
+    }
+
+    const entries = (await this.refreshExpiredFileUrls(page.entries)).map(normalizeTranscriptEntry);
+    return {
+      entries,
+      hasMore: page.hasMore,
+      before: entries[0]?.messageId,
+      after: entries[entries.length - 1]?.messageId,
+    };
+  }
+
+  /**
+   * Exports the transcript as a document, with sender labels, timestamps, action events and file attachments
+   * (using refreshed presigned URLs).
+   * @param options - Output format, what to include and how senders and timestamps are rendered.
+   * @param options.format - 'markdown' (default), 'html', 'json', 'text', a format added with registerTranscriptFormatter, or a formatter.
+   * @returns A promise that resolves to the rendered transcript.
+   * @throws CaptivateValidationError if the format is unknown.
+   */
+  public async exportTranscript(options: TranscriptExportOptions = {}): Promise<string> {
+    const formatter = getTranscriptFormatter(options.format);
+    const includeFiles = options.includeFiles ?? true;
+    const transcript = includeFiles ? await this.getTranscript() : await this.fetchTranscript();
+    const metadata = options.includeMetadata ? await this.getMetadata() : undefined;
+    const senderLabels = { ...DEFAULT_SENDER_LABELS, ...options.senderLabels };
+
+    return formatter.format(transcript.map(normalizeTranscriptEntry), {
+      conversationId: this.conversationId,
+      metadata,
+      includeFiles,
+      exportedAt: Date.now(),
+      senderLabel: (sender) => senderLabels[sender] ?? sender,
+      formatTimestamp: options.formatTimestamp || ((timestamp) => new Date(timestamp).toISOString()),
+    });
+  }
+
+  /**
+   * Fetches the raw transcript without refreshing file URLs.
+   * @returns A promise that resolves to the transcript entries.
+   */
+  private async fetchTranscript(): Promise<any[]> {
+    const data = await this.requestTranscript({});
+    return Array.isArray(data?.transcript) ? data.transcript : [];
+  }
+
+  /**
+   * Requests the transcript endpoint.
+   * @param options - Cursors and page size, sent as query parameters.
+   * @returns A promise that resolves to the validated response body.
    */
-  public async getTranscript(): Promise<object[]> {
+  private async requestTranscript(options: TranscriptPageOptions): Promise<any> {
     if (!this.apiKey) {
-      throw new Error('API key is required to fetch transcript via REST.');
+      throw new CaptivateValidationError('API key is required to fetch transcript via REST.');
     }
-    const url = `${this.getBaseUrl()}/api/transcript?conversation_id=${encodeURIComponent(this.conversationId)}`;
-    const response = await fetch(url, {
-      method: 'GET',
+    let url = `${this.getBaseUrl()}/api/transcript?conversation_id=${encodeURIComponent(this.conversationId)}`;
+    (['before', 'after', 'limit'] as const).forEach((key) => {
+      if (options[key] !== undefined) {
+        url += `&${key}=${encodeURIComponent(String(options[key]))}`;
+      }
+    });
+    const data = await this.transport.request(url, {
       headers: {
         'x-api-key': this.apiKey,
         'Accept': 'application/json'
       }
     });
-    if (!response.ok) {
-      throw new Error(`Failed to fetch transcript: ${response.status} ${response.statusText}`);
-    }
-    const data = await response.json();
-
-    // Refresh expired file URLs in the transcript
-    const refreshedTranscript = await this.refreshExpiredFileUrls(data.transcript);
-    return refreshedTranscript;
+    return this.dispatcher.getValidator().checkHttpResponse('transcript', data, url);
   }
 
   /**
@@ -377,7 +1786,8 @@ export class Conversation {
                 // Refresh expired URL
                 const refreshedUrl = await CaptivateChatFileManager.getSecureFileUrl(
                   file.storage.fileKey,
-                  7200 // 2 hours
+                  7200, // 2 hours
+                  this.endpoints.fileServiceBaseUrl
                 );
 
                 return {
@@ -436,7 +1846,7 @@ export class Conversation {
  * @returns A promise that resolves to the conversation metadata.
  */
   public async getMetadata(): Promise<object> {
-    const metadataRequest = {
+    const metadataRequest: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: 'metadata_request',
@@ -462,7 +1872,7 @@ export class Conversation {
   public async delete(options: { softDelete?: boolean } = {}): Promise<void> {
     const { softDelete = true } = options;
     
-    const deleteRequest = {
+    const deleteRequest: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: 'delete_conversation',
@@ -478,6 +1888,7 @@ export class Conversation {
     
     // The HTTP response confirms the conversation was deleted successfully
     captivateLogger.log(`Conversation ${softDelete ? 'soft' : 'hard'} delete confirmed via HTTP response:`, response);
+    await this.cache?.remove(this.getTranscriptCacheKey());
   }
 
 
@@ -486,21 +1897,23 @@ export class Conversation {
    * Edits a message in the conversation using HTTP request with direct response.
    * @param messageId - The ID of the message to edit.
    * @param content - The new content for the message (object or string).
+   * @param options - Optional settings.
+   * @param options.clientMsgId - Client message ID to send instead of a generated UUID.
    * @returns A promise that resolves when the edit is confirmed via HTTP response.
    */
-  public async editMessage(messageId: string, content: object | string): Promise<void> {
+  public async editMessage(messageId: string, content: OutgoingMessageContent | string, options: SendMessageOptions = {}): Promise<void> {
     // If content is a string, wrap it in a default object
     if (typeof content === 'string') {
       content = { type: 'text', text: content };
     }
 
-    const editRequest = {
+    const editRequest: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: 'edit_message',
         event_payload: {
           type: 'message_create',
-          client_msg_id: `edit-message-id-${Date.now()}`,
+          client_msg_id: this.resolveClientMessageId(options.clientMsgId),
           conversation_id: this.conversationId,
           message_id: messageId,
           content,
@@ -519,10 +1932,11 @@ export class Conversation {
    * Sends a payload via HTTP API (primary method).
    * @param eventType - The type of event being sent.
    * @param payload - The payload data to include with the event.
+   * @param outboxKind - Set for payloads that may be queued in the outbox.
    * @returns A promise that resolves to the response data.
    */
-  private async sendPayload(eventType: string, payload: object): Promise<any> {
-    const message = {
+  private async sendPayload(eventType: string, payload: object, outboxKind?: OutboxItemKind): Promise<any> {
+    const message: ChannelMessage = {
       action: 'sendMessage',
       event: {
         event_type: eventType,
@@ -530,7 +1944,44 @@ export class Conversation {
       },
     };
 
-    return this.sendPayloadViaHttp(message);
+    return outboxKind ? this.deliver(message, outboxKind) : this.sendPayloadViaHttp(message);
+  }
+
+  /**
+   * Sends a message through the outbox when it is enabled, otherwise directly via HTTP.
+   * With the outbox, resolves once the message is sent or queued for a later attempt, and rejects
+   * only when it failed for a reason retrying cannot fix.
+   * @param message - The message to send.
+   * @param kind - What the message carries.
+   * @returns A promise that resolves to the response data (undefined when sent through the outbox).
+   */
+  private async deliver(message: ChannelMessage, kind: OutboxItemKind): Promise<any> {
+    if (!this.outbox) {
+      return this.sendAndTrack(message);
+    }
+    const payload = message.event.event_payload as { client_msg_id?: string };
+    const id = payload.client_msg_id || generateClientMessageId();
+    await this.outbox.enqueue(id, kind, message);
+    await this.outbox.flush();
+    const item = this.outbox.getItems().find((candidate) => candidate.id === id);
+    if (item?.status === 'failed') {
+      throw this.outbox.getError(id) || new CaptivateValidationError(item.error || `Failed to send ${kind}`);
+    }
+  }
+
+  /**
+   * Sends a message via HTTP and marks user messages as sent, recording the server message ID from the response.
+   * @param message - The message to send.
+   * @returns A promise that resolves to the response data.
+   */
+  private async sendAndTrack(message: ChannelMessage): Promise<any> {
+    const response = await this.sendPayloadViaHttp(message);
+    if (message.event.event_type === 'user_message') {
+      const { client_msg_id: clientMsgId } = message.event.event_payload as { client_msg_id: string };
+      const messageId = response?.message_id ?? response?.messageId;
+      this.updateMessageStatus(clientMsgId, 'sent', typeof messageId === 'string' ? messageId : undefined);
+    }
+    return response;
   }
 
   /**
@@ -538,59 +1989,16 @@ export class Conversation {
    * @param message - The message to send via HTTP.
    * @returns A promise that resolves to the response data.
    */
-  private async sendPayloadViaHttp(message: object): Promise<any> {
+  private async sendPayloadViaHttp(message: ChannelMessage): Promise<any> {
     if (!this.apiKey) {
-      throw new Error('API key is required for HTTP communication');
+      throw new CaptivateValidationError('API key is required for HTTP communication');
     }
 
-    const url = `${this.getBaseUrl()}/api/custom-channel/sockets/message`;
-
-    // Add socket_id to the event if available
-    const messageWithSocketId = {
-      ...message,
-      event: {
-        ...(message as any).event,
-        socket_id: this.socketId
-      }
-    };
-
     try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'x-api-key': this.apiKey,
-          'Content-Type': 'application/json',
-          'Accept': 'application/json'
-        },
-        body: JSON.stringify(messageWithSocketId)
-      });
-
-      if (!response.ok) {
-        throw new Error(`HTTP request failed: ${response.status} ${response.statusText}`);
-      }
-
-      // Check if response is JSON or plain text
-      const contentType = response.headers.get('content-type');
-      let responseData;
-      
-      if (contentType && contentType.includes('application/json')) {
-        responseData = await response.json();
-      } else {
-        // Handle plain text response (like "OK")
-        const textResponse = await response.text();
-        captivateLogger.log('Server returned plain text:', textResponse);
-        // Return a mock response structure for plain text responses
-        responseData = {
-          status: 'success',
-          message: textResponse
-        };
-      }
-      
-      captivateLogger.log('Payload received from server via HTTP:', responseData);
-      return responseData;
+      return await this.transport.sendChannelMessage(this.getBaseUrl(), this.apiKey, this.socketId, message);
     } catch (error) {
-      console.error('HTTP request failed:', error);
-      throw new Error(`Failed to send payload via HTTP: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      captivateLogger.error('HTTP request failed:', error);
+      throw error;
     }
   }
 
@@ -602,21 +2010,21 @@ export class Conversation {
   private removeListener(eventType: string, callback: Function): void {
     const callbacks = this.listeners.get(eventType);
     if (callbacks) {
-      this.listeners.set(
-        eventType,
-        callbacks.filter((cb) => cb !== callback)
-      );
+      const remaining = callbacks.filter((cb) => cb !== callback);
+      if (remaining.length > 0) {
+        this.listeners.set(eventType, remaining);
+      } else {
+        this.listeners.delete(eventType);
+      }
     }
   }
 
   /**
-   * Gets the base URL for API requests based on the current mode.
+   * Gets the base URL for API requests based on the configured endpoints.
    * @returns The base URL for the API.
    */
   private getBaseUrl(): string {
-    return this.mode === 'prod'
-      ? 'https://channel.prod.captivat.io'
-      : 'https://channel.dev.captivat.io';
+    return this.endpoints.httpBaseUrl;
   }
 
   /**
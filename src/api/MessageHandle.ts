@@ -0,0 +1,121 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { CaptivateValidationError } from './errors';
+import { MessageStatus, MessageStatusUpdate, OutgoingMessageContent } from './types';
+
+/**
+ * Order of the forward statuses; a message never moves back to an earlier one.
+ */
+const STATUS_ORDER: MessageStatus[] = ['pending', 'queued', 'sent', 'delivered', 'read'];
+
+/**
+ * A message sent by this client, returned by Conversation.sendMessage().
+ * Tracks the server message ID and the delivery status as acknowledgements arrive.
+ */
+export class MessageHandle {
+  /**
+   * The client_msg_id the message was sent with.
+   */
+  public readonly clientMsgId: string;
+  private currentStatus: MessageStatus = 'pending';
+  private serverMessageId: string | undefined;
+  private listeners: Set<(update: MessageStatusUpdate) => void> = new Set();
+  private editMessage: (messageId: string, content: OutgoingMessageContent | string) => Promise<void>;
+
+  /**
+   * @param clientMsgId - The client_msg_id of the message.
+   * @param editMessage - Edits a message of the owning conversation by server message ID.
+   */
+  constructor(clientMsgId: string, editMessage: (messageId: string, content: OutgoingMessageContent | string) => Promise<void>) {
+    this.clientMsgId = clientMsgId;
+    this.editMessage = editMessage;
+  }
+
+  /**
+   * The server-assigned message ID, once the server has reported it.
+   */
+  public get messageId(): string | undefined {
+    return this.serverMessageId;
+  }
+
+  /**
+   * The current delivery status.
+   */
+  public get status(): MessageStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Registers a listener for status changes of this message.
+   * @param callback - Invoked with each status update.
+   * @returns A function that removes the listener.
+   */
+  public onStatusChange(callback: (update: MessageStatusUpdate) => void): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Edits this message.
+   * @param content - The new content.
+   * @throws CaptivateValidationError if the server message ID is not known yet.
+   */
+  public async edit(content: OutgoingMessageContent | string): Promise<void> {
+    if (!this.serverMessageId) {
+      throw new CaptivateValidationError(`The server message ID of ${this.clientMsgId} is not known yet.`);
+    }
+    await this.editMessage(this.serverMessageId, content);
+  }
+
+  /**
+   * Applies a status reported for this message. Used by the owning conversation.
+   * Statuses only move forward (pending → queued → sent → delivered → read); 'failed' is accepted until
+   * the message is sent, and a failed message may be queued or sent again.
+   * @param status - The reported status.
+   * @param messageId - The server message ID, if reported.
+   * @returns The resulting update, or null if nothing changed.
+   */
+  public update(status: MessageStatus, messageId?: string): MessageStatusUpdate | null {
+    const idChanged = !!messageId && messageId !== this.serverMessageId;
+    if (idChanged) {
+      this.serverMessageId = messageId;
+    }
+    const statusChanged = this.canMoveTo(status);
+    if (statusChanged) {
+      this.currentStatus = status;
+    }
+    if (!statusChanged && !idChanged) {
+      return null;
+    }
+
+    const update: MessageStatusUpdate = {
+      clientMsgId: this.clientMsgId,
+      messageId: this.serverMessageId,
+      status: this.currentStatus,
+      timestamp: Date.now(),
+    };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(update);
+      } catch (error) {
+        captivateLogger.error('Error in message status listener:', error);
+      }
+    });
+    return update;
+  }
+
+  private canMoveTo(status: MessageStatus): boolean {
+    if (status === this.currentStatus) {
+      return false;
+    }
+    if (this.currentStatus === 'failed') {
+      return true;
+    }
+    const current = STATUS_ORDER.indexOf(this.currentStatus);
+    if (status === 'failed') {
+      return current < STATUS_ORDER.indexOf('sent');
+    }
+    return STATUS_ORDER.indexOf(status) > current;
+  }
+}
@@ -0,0 +1,641 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket as WsSocket, WebSocketServer } from 'ws';
+import type { CaptivateChatOptions, CaptivateEndpoints } from './endpoints';
+import type { Action, AgentMessageContent } from './types';
+
+/**
+ * A scripted bot reply. A string is sent as a text bot_message.
+ */
+export type MockReply =
+  | string
+  | {
+    /**
+     * Content of the bot_message.
+     */
+    content?: AgentMessageContent;
+    /**
+     * Actions sent in an `action` event after the message.
+     */
+    actions?: Action[];
+    /**
+     * Sends a general_error event instead of a message.
+     */
+    error?: { code: number; description?: string };
+    /**
+     * Delivers the content through a 413 general_error with a message_link, as the backend does for large messages.
+     */
+    tooLarge?: boolean;
+    /**
+     * Extra delay before this reply is sent, in milliseconds.
+     */
+    delay?: number;
+  };
+
+/**
+ * A user message received by the mock server, passed to reply functions.
+ */
+export interface MockUserMessage {
+  conversationId: string;
+  messageId: string;
+  clientMsgId?: string;
+  content: any;
+  /**
+   * Text of the message, or '' for content without text (e.g. the empty opener of bot-first conversations).
+   */
+  text: string;
+}
+
+/**
+ * Replies to user messages: a list used in order (one entry per message; an entry may hold several replies),
+ * or a function returning the replies for a message. Messages without a scripted reply get the default reply.
+ */
+export type MockReplyScript = Array<MockReply | MockReply[]> | ((message: MockUserMessage) => MockReply | MockReply[] | null | undefined);
+
+/**
+ * Fault injection settings. Random faults use a seeded generator, so a run with the same seed fails the same requests.
+ */
+export interface MockFaults {
+  /**
+   * Delay added to every HTTP response and WebSocket event, in milliseconds.
+   */
+  latency?: number;
+  /**
+   * Probability (0-1) that a WebSocket event is dropped instead of sent.
+   */
+  dropRate?: number;
+  /**
+   * Probability (0-1) that an HTTP request fails with `errorStatus`.
+   */
+  errorRate?: number;
+  /**
+   * Status of injected HTTP failures. Defaults to 503.
+   */
+  errorStatus?: number;
+}
+
+/**
+ * Options of the mock server.
+ */
+export interface MockServerOptions {
+  /**
+   * Port to listen on. Defaults to 0 (a free port chosen by the OS).
+   */
+  port?: number;
+  replies?: MockReplyScript;
+  /**
+   * Reply to messages without a scripted reply. Defaults to echoing the text ("Echo: <text>"); messages without text get no reply.
+   */
+  defaultReply?: (message: MockUserMessage) => MockReply | MockReply[] | null | undefined;
+  /**
+   * Whether user messages are echoed back as `user_message` events. Defaults to false.
+   */
+  echoUserMessages?: boolean;
+  faults?: MockFaults;
+  /**
+   * Seed of the generator used for random faults. Defaults to 1.
+   */
+  seed?: number;
+}
+
+/**
+ * A conversation stored by the mock server.
+ */
+export interface MockConversation {
+  conversationId: string;
+  userId?: string;
+  metadata: Record<string, any>;
+  transcript: Array<Record<string, any>>;
+  deleted: boolean;
+}
+
+/**
+ * An HTTP request received by the mock server, recorded for assertions.
+ */
+export interface MockRequest {
+  method: string;
+  path: string;
+  /**
+   * event_type of channel messages.
+   */
+  eventType?: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Generates numbers in [0, 1) from a seed (mulberry32).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function getText(content: any): string {
+  if (typeof content === 'string') {
+    return content;
+  }
+  return typeof content?.text === 'string' ? content.text : '';
+}
+
+/**
+ * A local, deterministic stand-in for the Captivate Chat backend, for tests and local development (Node.js only).
+ * Serves the WebSocket and the channel message, transcript, file-to-text, presigned-url and path-ttl endpoints on one port,
+ * replies to user messages from a script, and can inject latency, dropped events and 5xx responses.
+ * IDs are sequential (conv-1, msg-1, socket-1, ...).
+ */
+export class MockCaptivateServer {
+  private options: MockServerOptions;
+  private server: http.Server | null = null;
+  private wss: WebSocketServer | null = null;
+  private port: number = 0;
+  private sockets: Map<string, WsSocket> = new Map();
+  /**
+   * Socket last used by each conversation, taken from the socket_id of its requests.
+   */
+  private conversationSockets: Map<string, string> = new Map();
+  private conversations: Map<string, MockConversation> = new Map();
+  private largeMessages: Map<string, AgentMessageContent> = new Map();
+  private scriptedReplies: Array<MockReply | MockReply[]> = [];
+  private faults: MockFaults;
+  private random: () => number;
+  private failingRequests: Array<{ status: number; match?: string }> = [];
+  private droppedEvents: Array<{ eventType?: string }> = [];
+  private counters = { conversation: 0, message: 0, socket: 0, file: 0 };
+  /**
+   * Every HTTP request received, oldest first.
+   */
+  public readonly requests: MockRequest[] = [];
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.faults = { ...options.faults };
+    this.random = createRandom(options.seed ?? 1);
+    if (Array.isArray(options.replies)) {
+      this.scriptedReplies = [...options.replies];
+    }
+  }
+
+  /**
+   * Starts listening.
+   * @returns A promise that resolves to the endpoints of the server.
+   */
+  public start(): Promise<CaptivateEndpoints> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((req, res) => this.handleHttp(req, res));
+      this.wss = new WebSocketServer({ server });
+      this.wss.on('connection', (socket) => this.handleConnection(socket));
+      server.once('error', reject);
+      server.listen(this.options.port ?? 0, () => {
+        this.port = (server.address() as AddressInfo).port;
+        this.server = server;
+        resolve(this.endpoints);
+      });
+    });
+  }
+
+  /**
+   * Closes every socket and stops listening.
+   */
+  public async stop(): Promise<void> {
+    this.sockets.forEach((socket) => socket.terminate());
+    this.sockets.clear();
+    await new Promise<void>((resolve) => (this.wss ? this.wss.close(() => resolve()) : resolve()));
+    await new Promise<void>((resolve) => (this.server ? this.server.close(() => resolve()) : resolve()));
+    this.wss = null;
+    this.server = null;
+  }
+
+  /**
+   * The WebSocket, HTTP and file service endpoints of the running server.
+   */
+  public get endpoints(): CaptivateEndpoints {
+    const httpBaseUrl = `http://localhost:${this.port}`;
+    return { wsUrl: `ws://localhost:${this.port}`, httpBaseUrl, fileServiceBaseUrl: httpBaseUrl };
+  }
+
+  /**
+   * Options that point CaptivateChatAPI at this server, e.g. `CaptivateChatAPI.create('test-key', server.getClientOptions())`.
+   * The heartbeat is disabled and reconnects are fast, so tests do not wait on timers.
+   * @param overrides - Options merged over the defaults.
+   */
+  public getClientOptions(overrides: CaptivateChatOptions = {}): CaptivateChatOptions {
+    return {
+      environment: 'local',
+      heartbeat: false,
+      reconnect: { initialDelay: 50, maxDelay: 200, jitter: 0 },
+      ...overrides,
+      endpoints: { ...this.endpoints, ...overrides.endpoints },
+    };
+  }
+
+  /**
+   * Adds replies to the end of the reply script.
+   */
+  public queueReplies(...replies: Array<MockReply | MockReply[]>): void {
+    this.scriptedReplies.push(...replies);
+  }
+
+  /**
+   * Changes the fault injection settings.
+   */
+  public setFaults(faults: MockFaults): void {
+    this.faults = { ...faults };
+  }
+
+  /**
+   * Makes the next HTTP requests fail.
+   * @param count - Number of requests to fail.
+   * @param status - Response status. Defaults to 503.
+   * @param match - Only fail requests with this event_type or path.
+   */
+  public failNextRequests(count: number, status: number = 503, match?: string): void {
+    for (let i = 0; i < count; i++) {
+      this.failingRequests.push({ status, match });
+    }
+  }
+
+  /**
+   * Drops the next WebSocket events instead of sending them.
+   * @param count - Number of events to drop.
+   * @param eventType - Only drop events of this type.
+   */
+  public dropNextEvents(count: number, eventType?: string): void {
+    for (let i = 0; i < count; i++) {
+      this.droppedEvents.push({ eventType });
+    }
+  }
+
+  /**
+   * Closes every client socket, as a network drop or server restart would.
+   * @param code - Close code. Defaults to 1012 (service restart).
+   */
+  public disconnectAll(code: number = 1012): void {
+    this.sockets.forEach((socket) => socket.close(code, 'Mock server disconnect'));
+  }
+
+  /**
+   * Number of open client sockets.
+   */
+  public getConnectionCount(): number {
+    return this.sockets.size;
+  }
+
+  /**
+   * Adds a conversation, e.g. to test getUserConversations or getTranscript against existing data.
+   * @returns The stored conversation.
+   */
+  public addConversation(conversation: Partial<MockConversation> = {}): MockConversation {
+    const stored: MockConversation = {
+      conversationId: conversation.conversationId || `conv-${++this.counters.conversation}`,
+      userId: conversation.userId,
+      metadata: { ...conversation.metadata },
+      transcript: [...(conversation.transcript || [])],
+      deleted: false,
+    };
+    this.conversations.set(stored.conversationId, stored);
+    return stored;
+  }
+
+  /**
+   * Gets a stored conversation.
+   */
+  public getConversation(conversationId: string): MockConversation | undefined {
+    return this.conversations.get(conversationId);
+  }
+
+  /**
+   * Gets the recorded HTTP requests, optionally only the channel messages of one event type.
+   */
+  public getRequests(eventType?: string): MockRequest[] {
+    return eventType ? this.requests.filter((request) => request.eventType === eventType) : [...this.requests];
+  }
+
+  /**
+   * Sends a WebSocket event to the socket of a conversation (or to every socket if the conversation has none).
+   * livechat_message events are added to the transcript.
+   * @param conversationId - The conversation the event belongs to.
+   * @param eventType - The event type, e.g. 'livechat_message' or 'conversation_update'.
+   * @param payload - The event payload; conversation_id is added.
+   */
+  public sendEvent(conversationId: string, eventType: string, payload: Record<string, any> = {}): void {
+    const eventPayload: Record<string, any> = { conversation_id: conversationId, ...payload };
+    if (eventType === 'livechat_message' || eventType === 'bot_message') {
+      eventPayload.message_id = eventPayload.message_id || this.nextMessageId();
+      this.record(conversationId, eventType === 'bot_message' ? 'bot' : 'livechat', eventPayload);
+    }
+    const socketId = this.conversationSockets.get(conversationId);
+    const socket = socketId ? this.sockets.get(socketId) : undefined;
+    const targets = socket ? [socket] : Array.from(this.sockets.values());
+    targets.forEach((target) => this.emitTo(target, eventType, eventPayload));
+  }
+
+  private handleConnection(socket: WsSocket): void {
+    const socketId = `socket-${++this.counters.socket}`;
+    this.sockets.set(socketId, socket);
+    socket.on('close', () => {
+      if (this.sockets.get(socketId) === socket) {
+        this.sockets.delete(socketId);
+      }
+    });
+    socket.on('message', (data) => {
+      let frame: any;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        return;
+      }
+      if (frame?.action === 'ping') {
+        this.emitTo(socket, 'pong', {});
+      }
+    });
+    this.emitTo(socket, 'socket_connected', { socket_id: socketId });
+  }
+
+  private emitTo(socket: WsSocket, eventType: string, payload: object): void {
+    const dropIndex = this.droppedEvents.findIndex((drop) => !drop.eventType || drop.eventType === eventType);
+    if (dropIndex >= 0) {
+      this.droppedEvents.splice(dropIndex, 1);
+      return;
+    }
+    if (this.faults.dropRate && this.random() < this.faults.dropRate) {
+      return;
+    }
+    this.delay(this.faults.latency).then(() => {
+      if (socket.readyState === WsSocket.OPEN) {
+        socket.send(JSON.stringify({ event: { event_type: eventType, event_payload: payload } }));
+      }
+    });
+  }
+
+  private async handleHttp(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const raw = Buffer.concat(chunks).toString('utf8');
+    const url = new URL(req.url || '/', this.endpoints.httpBaseUrl);
+    let body: any = raw;
+    if ((req.headers['content-type'] || '').includes('application/json')) {
+      try {
+        body = JSON.parse(raw);
+      } catch {
+        body = raw;
+      }
+    }
+    const eventType: string | undefined = url.pathname === '/api/custom-channel/sockets/message' ? body?.event?.event_type : undefined;
+    this.requests.push({ method: req.method || 'GET', path: url.pathname, eventType, headers: req.headers, body });
+
+    await this.delay(this.faults.latency);
+    const failure = this.takeFailure(url.pathname, eventType);
+    if (failure) {
+      return this.respond(res, failure, { error: 'Injected failure' });
+    }
+
+    try {
+      const [status, responseBody] = this.route(req.method || 'GET', url, body, raw);
+      this.respond(res, status, responseBody);
+    } catch (error: any) {
+      this.respond(res, 500, { error: error?.message || 'Mock server error' });
+    }
+  }
+
+  private takeFailure(path: string, eventType?: string): number | null {
+    const index = this.failingRequests.findIndex((failure) => !failure.match || failure.match === path || failure.match === eventType);
+    if (index >= 0) {
+      return this.failingRequests.splice(index, 1)[0].status;
+    }
+    if (this.faults.errorRate && this.random() < this.faults.errorRate) {
+      return this.faults.errorStatus || 503;
+    }
+    return null;
+  }
+
+  private route(method: string, url: URL, body: any, raw: string): [number, any] {
+    const path = url.pathname;
+    if (method === 'POST' && path === '/api/custom-channel/sockets/message') {
+      return this.handleChannelMessage(body);
+    }
+    if (method === 'GET' && path === '/api/transcript') {
+      const conversation = this.conversations.get(url.searchParams.get('conversation_id') || '');
+      if (!conversation || conversation.deleted) {
+        return [404, { error: 'Conversation not found' }];
+      }
+      return [200, { transcript: conversation.transcript }];
+    }
+    if (method === 'GET' && path.startsWith('/api/large-message/')) {
+      const content = this.largeMessages.get(decodeURIComponent(path.slice('/api/large-message/'.length)));
+      return content ? [200, { botMessage: { content } }] : [404, { error: 'Message not found' }];
+    }
+    if (method === 'POST' && path === '/api/file-to-text') {
+      const fileName = /filename="([^"]*)"/.exec(raw)?.[1] || 'file';
+      const storage = /name="storage"\r\n\r\ntrue/.test(raw);
+      const fileKey = `files/${++this.counters.file}/${fileName}`;
+      return [200, {
+        success: true,
+        text: `Text extracted from ${fileName}`,
+        ...(storage ? { fileKey, presignedUrl: this.getPresignedUrl(fileKey, 7200), expiresIn: Math.floor(Date.now() / 1000) + 7200, fileSize: raw.length } : {}),
+      }];
+    }
+    if (method === 'POST' && path === '/api/presigned-url') {
+      if (!body?.fileKey) {
+        return [400, { success: false, error: 'fileKey is required' }];
+      }
+      return [200, { success: true, presignedUrl: this.getPresignedUrl(body.fileKey, body.expiresIn || 7200) }];
+    }
+    if (method === 'POST' && path === '/api/path-ttl') {
+      return [200, { success: true }];
+    }
+    if (method === 'GET' && path.startsWith('/files/')) {
+      return [200, 'mock file content'];
+    }
+    return [404, { error: `No mock for ${method} ${path}` }];
+  }
+
+  private handleChannelMessage(body: any): [number, any] {
+    const event = body?.event || {};
+    const payload = event.event_payload || {};
+    const conversationId: string | undefined = payload.conversation_id;
+    if (conversationId && event.socket_id) {
+      this.conversationSockets.set(conversationId, event.socket_id);
+    }
+    const conversation = conversationId ? this.conversations.get(conversationId) : undefined;
+
+    switch (event.event_type) {
+      case 'conversation_start': {
+        const started = this.addConversation({ userId: payload.userId, metadata: payload.metadata });
+        if (event.socket_id) {
+          this.conversationSockets.set(started.conversationId, event.socket_id);
+        }
+        this.sendToSocket(event.socket_id, 'conversation_start_success', { conversation_id: started.conversationId });
+        return [200, { status: 'success' }];
+      }
+      case 'get_user_conversations':
+      case 'get_user_conversations_v2':
+        return [200, this.listConversations(payload, event.event_type === 'get_user_conversations_v2')];
+      case 'delete_user_conversations':
+        this.conversations.forEach((stored) => {
+          if (stored.userId === payload.userId) {
+            stored.deleted = true;
+          }
+        });
+        return [200, { status: 'success' }];
+    }
+
+    if (!conversation || conversation.deleted) {
+      return [404, { error: `Conversation ${conversationId} not found` }];
+    }
+
+    switch (event.event_type) {
+      case 'user_message':
+        return [200, { status: 'success', message_id: this.receiveUserMessage(conversation, payload) }];
+      case 'edit_message': {
+        const entry = conversation.transcript.find((candidate) => candidate.message_id === payload.message_id);
+        if (!entry) {
+          return [404, { error: `Message ${payload.message_id} not found` }];
+        }
+        entry.content = payload.content;
+        return [200, { status: 'success' }];
+      }
+      case 'metadata':
+        conversation.metadata = { ...conversation.metadata, ...payload.metadata };
+        return [200, { status: 'success' }];
+      case 'metadata_request':
+        return [200, { metadata: conversation.metadata }];
+      case 'delete_conversation':
+        conversation.deleted = true;
+        return [200, { status: 'success' }];
+      default:
+        // action, user_typing and anything else are accepted
+        return [200, { status: 'success' }];
+    }
+  }
+
+  private listConversations(payload: any, v2: boolean): object {
+    const status = payload.filter?.status;
+    const statuses = status === undefined ? null : Array.isArray(status) ? status : [status];
+    const matching = Array.from(this.conversations.values())
+      .filter((stored) => !stored.deleted && stored.userId === payload.userId)
+      .filter((stored) => !statuses || statuses.includes(stored.metadata.status || 'open'))
+      .map((stored) => ({ conversation_id: stored.conversationId, metadata: stored.metadata }));
+    if (!v2) {
+      return { conversations: matching };
+    }
+    const page = Math.max(1, Number(payload.pagination?.page) || 1);
+    const pageSize = Math.max(1, Number(payload.pagination?.limit) || 10);
+    const totalPages = Math.max(1, Math.ceil(matching.length / pageSize));
+    return {
+      conversations: matching.slice((page - 1) * pageSize, page * pageSize),
+      pagination: { hasNextPage: page < totalPages, hasPrevPage: page > 1, page, pageSize, total: matching.length, totalPages },
+    };
+  }
+
+  private receiveUserMessage(conversation: MockConversation, payload: any): string {
+    const messageId = this.nextMessageId();
+    const content = payload.content;
+    this.record(conversation.conversationId, 'user', { message_id: messageId, client_msg_id: payload.client_msg_id, content });
+    if (this.options.echoUserMessages) {
+      this.sendEvent(conversation.conversationId, 'user_message', { message_id: messageId, client_msg_id: payload.client_msg_id, content });
+    }
+
+    const message: MockUserMessage = {
+      conversationId: conversation.conversationId,
+      messageId,
+      clientMsgId: payload.client_msg_id,
+      content,
+      text: getText(content),
+    };
+    const replies = this.getReplies(message);
+    // Reply after the HTTP response, as the backend does
+    setTimeout(() => {
+      this.sendReplies(conversation.conversationId, replies);
+    }, 0);
+    return messageId;
+  }
+
+  private getReplies(message: MockUserMessage): MockReply[] {
+    let replies: MockReply | MockReply[] | null | undefined;
+    if (typeof this.options.replies === 'function') {
+      replies = this.options.replies(message);
+    } else if (this.scriptedReplies.length > 0) {
+      replies = this.scriptedReplies.shift();
+    }
+    if (replies === undefined) {
+      replies = this.options.defaultReply
+        ? this.options.defaultReply(message)
+        : (message.text ? `Echo: ${message.text}` : null);
+    }
+    if (replies === null || replies === undefined) {
+      return [];
+    }
+    return Array.isArray(replies) ? replies : [replies];
+  }
+
+  private async sendReplies(conversationId: string, replies: MockReply[]): Promise<void> {
+    for (const reply of replies) {
+      const normalized = typeof reply === 'string' ? { content: { type: 'text', text: reply } as AgentMessageContent } : reply;
+      await this.delay(normalized.delay);
+      if (normalized.error) {
+        this.sendEvent(conversationId, 'general_error', { error_code: normalized.error.code, error_desc: normalized.error.description || 'Mock error' });
+        continue;
+      }
+      if (normalized.content) {
+        if (normalized.tooLarge) {
+          const messageId = this.nextMessageId();
+          this.largeMessages.set(messageId, normalized.content);
+          this.record(conversationId, 'bot', { message_id: messageId, content: normalized.content });
+          this.sendEvent(conversationId, 'general_error', {
+            error_code: 413,
+            error_desc: 'Message too large for WebSocket',
+            message_link: `${this.endpoints.httpBaseUrl}/api/large-message/${encodeURIComponent(messageId)}`,
+          });
+        } else {
+          this.sendEvent(conversationId, 'bot_message', { content: normalized.content });
+        }
+      }
+      if (normalized.actions) {
+        this.sendEvent(conversationId, 'action', { actions: normalized.actions });
+      }
+    }
+  }
+
+  private sendToSocket(socketId: string | undefined, eventType: string, payload: object): void {
+    const socket = socketId ? this.sockets.get(socketId) : undefined;
+    const targets = socket ? [socket] : Array.from(this.sockets.values());
+    targets.forEach((target) => this.emitTo(target, eventType, payload));
+  }
+
+  private record(conversationId: string, from: string, entry: Record<string, any>): void {
+    const { conversation_id: _conversationId, ...rest } = entry;
+    this.conversations.get(conversationId)?.transcript.push({ ...rest, from, timestamp: Math.floor(Date.now() / 1000) });
+  }
+
+  private getPresignedUrl(fileKey: string, expiresIn: number): string {
+    const expires = Math.floor(Date.now() / 1000) + Number(expiresIn);
+    return `${this.endpoints.httpBaseUrl}/files/${encodeURIComponent(fileKey)}?expires=${expires}`;
+  }
+
+  private nextMessageId(): string {
+    return `msg-${++this.counters.message}`;
+  }
+
+  private respond(res: http.ServerResponse, status: number, body: any): void {
+    if (typeof body === 'string') {
+      res.writeHead(status, { 'content-type': 'text/plain' });
+      res.end(body);
+      return;
+    }
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private delay(ms?: number): Promise<void> {
+    return ms && ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
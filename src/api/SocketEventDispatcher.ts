@@ -0,0 +1,174 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { ConversationSocketEvent } from './types';
+import { ProtocolValidator } from './validation';
+
+/**
+ * A parsed WebSocket frame from the Captivate backend.
+ */
+export interface SocketEventMessage {
+  event?: {
+    event_type?: string;
+    event_payload?: any;
+  };
+  [key: string]: any;
+}
+
+export type SocketEventHandler = (message: SocketEventMessage) => void;
+
+/**
+ * Handler for the events of one conversation, narrowed by `event_type`.
+ */
+export type ConversationEventHandler = (event: ConversationSocketEvent) => void;
+
+/**
+ * Single owner of a WebSocket's message handler.
+ * Parses each frame once and routes it to the handlers registered for its conversation_id.
+ * Frames without a conversation_id, or for a conversation nobody registered, go to the fallback handlers.
+ * Unparsable and invalid frames are reported to the validator and never reach the handlers as exceptions.
+ */
+export class SocketEventDispatcher {
+  /**
+   * Validates frames and the HTTP responses of the conversations using this dispatcher.
+   */
+  private validator: ProtocolValidator;
+  /**
+   * Handlers per conversation ID. Several Conversation instances may share an ID.
+   */
+  private conversationHandlers: Map<string, Set<ConversationEventHandler>> = new Map();
+  /**
+   * Handlers for events that are not routed to a conversation.
+   */
+  private fallbackHandlers: Set<SocketEventHandler> = new Set();
+
+  /**
+   * @param validator - The validator to check frames with (a lenient one is created if omitted).
+   */
+  constructor(validator?: ProtocolValidator) {
+    this.validator = validator || new ProtocolValidator();
+  }
+
+  /**
+   * Gets the validator used for this dispatcher's frames.
+   */
+  public getValidator(): ProtocolValidator {
+    return this.validator;
+  }
+
+  /**
+   * Makes this dispatcher the message handler of a socket.
+   * @param socket - The WebSocket to listen to.
+   * @param onFrame - Optional hook invoked for every frame with its parsed content (undefined if unparsable), e.g. for keepalive tracking.
+   */
+  public attach(socket: WebSocket, onFrame?: (message: SocketEventMessage | undefined) => void): void {
+    socket.onmessage = (event: MessageEvent) => {
+      const message = this.parse(event.data);
+      onFrame?.(message);
+      if (message !== undefined) {
+        this.route(message);
+      }
+    };
+  }
+
+  /**
+   * Parses a raw frame and routes it to the matching handlers.
+   * @param data - The raw frame data.
+   */
+  public dispatch(data: any): void {
+    const message = this.parse(data);
+    if (message !== undefined) {
+      this.route(message);
+    }
+  }
+
+  /**
+   * Parses a raw frame, reporting it to the validator if it is not JSON.
+   * @returns The parsed frame, or undefined if it could not be parsed.
+   */
+  private parse(data: any): SocketEventMessage | undefined {
+    try {
+      return JSON.parse(data.toString());
+    } catch (error) {
+      captivateLogger.error('Error parsing message:', error);
+      this.validator.reportUnparsableFrame(data, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Validates a parsed frame and routes it to the handlers of its conversation or to the fallback handlers.
+   */
+  private route(message: SocketEventMessage): void {
+    captivateLogger.log('messagereceived:', message);
+
+    // Non-object frames (e.g. a bare "pong") carry nothing to route
+    if (!this.validator.checkSocketEvent(message) || typeof message !== 'object' || message === null) {
+      return;
+    }
+
+    const conversationId = message.event?.event_payload?.conversation_id;
+    const handlers = conversationId ? this.conversationHandlers.get(conversationId) : undefined;
+
+    if (handlers && handlers.size > 0 && typeof message.event?.event_type === 'string') {
+      this.invoke(handlers, message.event as ConversationSocketEvent);
+    } else {
+      this.invoke(this.fallbackHandlers, message);
+    }
+  }
+
+  /**
+   * Registers a handler for events of a specific conversation.
+   * @param conversationId - The conversation ID to receive events for.
+   * @param handler - The function to invoke for each event.
+   * @returns A function that removes the handler.
+   */
+  public register(conversationId: string, handler: ConversationEventHandler): () => void {
+    if (!this.conversationHandlers.has(conversationId)) {
+      this.conversationHandlers.set(conversationId, new Set());
+    }
+    this.conversationHandlers.get(conversationId)!.add(handler);
+
+    return () => {
+      const handlers = this.conversationHandlers.get(conversationId);
+      if (handlers) {
+        handlers.delete(handler);
+        if (handlers.size === 0) {
+          this.conversationHandlers.delete(conversationId);
+        }
+      }
+    };
+  }
+
+  /**
+   * Registers a handler for events that carry no conversation ID or belong to no registered conversation.
+   * @param handler - The function to invoke for each event.
+   * @returns A function that removes the handler.
+   */
+  public onFallback(handler: SocketEventHandler): () => void {
+    this.fallbackHandlers.add(handler);
+    return () => {
+      this.fallbackHandlers.delete(handler);
+    };
+  }
+
+  /**
+   * Removes all registered handlers.
+   */
+  public clear(): void {
+    this.conversationHandlers.clear();
+    this.fallbackHandlers.clear();
+  }
+
+  /**
+   * Invokes handlers in isolation so one failing handler does not stop the others.
+   */
+  private invoke<T>(handlers: Set<(value: T) => void>, value: T): void {
+    // Copy so handlers can unregister themselves while being invoked
+    for (const handler of [...handlers]) {
+      try {
+        handler(value);
+      } catch (error) {
+        captivateLogger.error('Error in WebSocket event handler:', error);
+      }
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { StorageAdapter, getDefaultStorage } from './storage';
+
+/**
+ * Settings for the local conversation and transcript cache.
+ */
+export interface CacheOptions {
+  /**
+   * Where cached data is stored. Defaults to `localStorage` when available, otherwise memory.
+   * Use IndexedDBStorageAdapter in browsers, FileStorageAdapter in Node.js, or pass React Native's `AsyncStorage`.
+   */
+  storage?: StorageAdapter;
+  /**
+   * Age in milliseconds after which cached data is revalidated in the background when it is served.
+   * Defaults to 0: cached data is always served first and then revalidated.
+   */
+  staleTime?: number;
+  /**
+   * Prefix of the storage keys. Defaults to 'captivate-cache'.
+   */
+  keyPrefix?: string;
+  /**
+   * Also keeps full transcripts in `storage`, so they survive a reload. Defaults to false: transcripts are
+   * cached in memory for the lifetime of the API instance and only conversation lists are persisted.
+   */
+  persistTranscripts?: boolean;
+}
+
+/**
+ * A cached value and when it was last fetched from the server.
+ */
+export interface CacheRecord<T> {
+  value: T;
+  updatedAt: number;
+}
+
+/**
+ * Key-value cache on top of a StorageAdapter, used to serve conversation lists and transcripts instantly.
+ * Values are stored as JSON together with their fetch time. Storage failures are logged and treated as cache misses,
+ * so a broken or full storage never breaks the API calls it backs.
+ */
+export class ChatCache {
+  private storage: StorageAdapter;
+  private staleTime: number;
+  private keyPrefix: string;
+  /**
+   * Pending writes per key, so updates of the same key are applied in order.
+   */
+  private writes: Map<string, Promise<void>> = new Map();
+
+  constructor(options: CacheOptions = {}) {
+    this.storage = options.storage || getDefaultStorage();
+    this.staleTime = options.staleTime ?? 0;
+    this.keyPrefix = options.keyPrefix || 'captivate-cache';
+  }
+
+  /**
+   * Reads a cached value.
+   * @returns The record, or null if nothing is cached.
+   */
+  public async get<T>(key: string): Promise<CacheRecord<T> | null> {
+    await this.writes.get(key);
+    try {
+      const stored = await this.storage.getItem(this.getStorageKey(key));
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      captivateLogger.error(`Failed to read cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Stores a value fetched from the server.
+   */
+  public set<T>(key: string, value: T): Promise<void> {
+    return this.write(key, async () => {
+      const record: CacheRecord<T> = { value, updatedAt: Date.now() };
+      await this.storage.setItem(this.getStorageKey(key), JSON.stringify(record));
+    });
+  }
+
+  /**
+   * Changes a cached value in place, e.g. to apply a live event. Nothing happens if the key is not cached.
+   * The fetch time is kept, so the change does not postpone revalidation.
+   * @param key - The cache key.
+   * @param updater - Returns the new value.
+   * @returns A promise that resolves to the new value, or null if the key is not cached.
+   */
+  public async update<T>(key: string, updater: (value: T) => T): Promise<T | null> {
+    let updated: T | null = null;
+    await this.write(key, async () => {
+      const stored = await this.storage.getItem(this.getStorageKey(key));
+      if (!stored) {
+        return;
+      }
+      const record: CacheRecord<T> = JSON.parse(stored);
+      updated = updater(record.value);
+      await this.storage.setItem(this.getStorageKey(key), JSON.stringify({ ...record, value: updated }));
+    });
+    return updated;
+  }
+
+  /**
+   * Removes a cached value.
+   */
+  public remove(key: string): Promise<void> {
+    return this.write(key, async () => {
+      await this.storage.removeItem(this.getStorageKey(key));
+    });
+  }
+
+  /**
+   * Returns true if a record is older than the configured stale time.
+   */
+  public isStale(record: CacheRecord<unknown>): boolean {
+    return Date.now() - record.updatedAt >= this.staleTime;
+  }
+
+  private getStorageKey(key: string): string {
+    return `${this.keyPrefix}:${key}`;
+  }
+
+  private write(key: string, run: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(key) || Promise.resolve();
+    const next = previous.then(run).catch((error) => {
+      captivateLogger.error(`Failed to write cache entry ${key}:`, error);
+    });
+    this.writes.set(key, next);
+    next.then(() => {
+      if (this.writes.get(key) === next) {
+        this.writes.delete(key);
+      }
+    });
+    return next;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Observable state of the WebSocket connection of a CaptivateChatAPI instance.
+ */
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+export type ConnectionStateListener = (state: ConnectionState, previousState: ConnectionState) => void;
+
+/**
+ * Limits and backoff settings for automatic reconnection.
+ */
+export interface ReconnectOptions {
+  /**
+   * Maximum number of connection attempts per reconnection cycle. Use Infinity to retry forever. Defaults to 10.
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the second attempt, in milliseconds. The first attempt is immediate. Defaults to 1000.
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound for a single delay, in milliseconds. Defaults to 30000.
+   */
+  maxDelay?: number;
+  /**
+   * Factor applied to the delay after each failed attempt. Defaults to 2.
+   */
+  multiplier?: number;
+  /**
+   * Random spread applied to each delay, as a ratio (0.3 = ±30%). Defaults to 0.3.
+   */
+  jitter?: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: Required<ReconnectOptions> = {
+  maxAttempts: 10,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.3
+};
+
+/**
+ * Computes the delay before a reconnection attempt using exponential backoff with jitter.
+ * @param attempt - The attempt number, starting at 1 for the first retry.
+ * @param options - The reconnection options.
+ * @returns The delay in milliseconds.
+ */
+export function getReconnectDelay(attempt: number, options: Required<ReconnectOptions>): number {
+  const base = Math.min(options.initialDelay * options.multiplier ** (attempt - 1), options.maxDelay);
+  const spread = base * options.jitter;
+  return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+}
@@ -0,0 +1,169 @@
+import { CaptivateValidationError } from './errors';
+import { HttpTransportOptions } from './transport';
+import { ReconnectOptions } from './connection';
+import { HeartbeatOptions } from './heartbeat';
+import { ValidationOptions } from './validation';
+import { OutboxOptions } from './outbox';
+import { CacheOptions } from './cache';
+
+/**
+ * Base URLs used by the SDK to reach the Captivate Chat backend.
+ */
+export interface CaptivateEndpoints {
+  /**
+   * WebSocket URL for receiving real-time events. The API key is appended as a query parameter.
+   */
+  wsUrl: string;
+  /**
+   * Base URL of the channel HTTP API (custom-channel messages, transcripts).
+   */
+  httpBaseUrl: string;
+  /**
+   * Base URL of the file service (file-to-text, presigned-url, path-ttl).
+   */
+  fileServiceBaseUrl: string;
+}
+
+/**
+ * Legacy mode values accepted wherever an environment can be given.
+ */
+export type CaptivateMode = 'prod' | 'dev';
+
+/**
+ * Options accepted by `CaptivateChatAPI.create()` and `CaptivateChatManager.create()`.
+ */
+export interface CaptivateChatOptions {
+  /**
+   * Named environment to use ('prod', 'dev', 'local' or one added with `registerEnvironment`). Defaults to 'prod'.
+   */
+  environment?: string;
+  /**
+   * Individual endpoint overrides, applied on top of the named environment.
+   */
+  endpoints?: Partial<CaptivateEndpoints>;
+  /**
+   * Default timeout and retry settings for HTTP requests.
+   */
+  http?: HttpTransportOptions;
+  /**
+   * Backoff and limit settings for automatic WebSocket reconnection.
+   */
+  reconnect?: ReconnectOptions;
+  /**
+   * Keepalive that pings idle sockets and replaces those that stop answering. Requires a server that answers
+   * pings with a pong event. Pass true for the defaults or an options object. Disabled by default.
+   */
+  heartbeat?: HeartbeatOptions | boolean;
+  /**
+   * Runtime validation of WebSocket events and HTTP responses. Set `strict: true` to drop or reject invalid data.
+   */
+  validation?: ValidationOptions;
+  /**
+   * Queues outgoing messages, actions and metadata updates while offline and sends them in order once
+   * the connection is back. Pass true for the defaults or an options object. Disabled by default.
+   */
+  outbox?: OutboxOptions | boolean;
+  /**
+   * Caches conversation lists and transcripts locally, serves them instantly and revalidates them in the background.
+   * Pass true for the defaults or an options object. Disabled by default.
+   */
+  cache?: CacheOptions | boolean;
+}
+
+/**
+ * Endpoints resolved for a specific instance, along with the environment name they came from.
+ */
+export interface ResolvedEndpoints extends CaptivateEndpoints {
+  environment: string;
+}
+
+/**
+ * Registry of named environments. 'prod' and 'dev' mirror the hosts the SDK has always used.
+ */
+const environments: Map<string, CaptivateEndpoints> = new Map([
+  ['prod', {
+    wsUrl: 'wss://channel.wss.captivatechat.ai/dev',
+    httpBaseUrl: 'https://channel.prod.captivat.io',
+    fileServiceBaseUrl: 'https://file-to-text.prod.captivat.io'
+  }],
+  ['dev', {
+    wsUrl: 'wss://channel-dev.wss.captivatechat.ai/dev',
+    httpBaseUrl: 'https://channel.dev.captivat.io',
+    fileServiceBaseUrl: 'https://file-to-text.prod.captivat.io'
+  }],
+  ['local', {
+    wsUrl: 'ws://localhost:4000',
+    httpBaseUrl: 'http://localhost:4000',
+    fileServiceBaseUrl: 'http://localhost:4000'
+  }]
+]);
+
+/**
+ * Registers (or replaces) a named environment, e.g. 'staging'.
+ * @param name - The environment name.
+ * @param endpoints - The endpoints for this environment.
+ */
+export function registerEnvironment(name: string, endpoints: CaptivateEndpoints): void {
+  if (!name) {
+    throw new CaptivateValidationError('Environment name must be provided.');
+  }
+  environments.set(name, { ...endpoints });
+}
+
+/**
+ * Resolves the endpoints for a mode string or an options object.
+ * @param modeOrOptions - A named environment ('prod', 'dev', ...) or a CaptivateChatOptions object.
+ * @returns The resolved endpoints with trailing slashes removed from base URLs.
+ */
+export function resolveEndpoints(modeOrOptions: string | CaptivateChatOptions = 'prod'): ResolvedEndpoints {
+  const options: CaptivateChatOptions = typeof modeOrOptions === 'string'
+    ? { environment: modeOrOptions }
+    : modeOrOptions;
+
+  const environment = options.environment || 'prod';
+  const base = environments.get(environment);
+  const overrides = options.endpoints || {};
+
+  if (!base && !(overrides.wsUrl && overrides.httpBaseUrl && overrides.fileServiceBaseUrl)) {
+    throw new CaptivateValidationError(`Unknown environment "${environment}". Register it with registerEnvironment() or provide all endpoints.`);
+  }
+
+  const merged = { ...base, ...overrides } as CaptivateEndpoints;
+  return {
+    environment,
+    wsUrl: merged.wsUrl,
+    httpBaseUrl: stripTrailingSlash(merged.httpBaseUrl),
+    fileServiceBaseUrl: stripTrailingSlash(merged.fileServiceBaseUrl)
+  };
+}
+
+/**
+ * Builds a stable key identifying a set of endpoints, used by the instance registry.
+ * Named environments without overrides keep their plain name so existing keys are unchanged.
+ * @param modeOrOptions - A named environment or a CaptivateChatOptions object.
+ * @returns The key string.
+ */
+export function getEndpointsKey(modeOrOptions: string | CaptivateChatOptions = 'prod'): string {
+  const resolved = resolveEndpoints(modeOrOptions);
+  const hasOverrides = typeof modeOrOptions !== 'string' &&
+    !!modeOrOptions.endpoints && Object.keys(modeOrOptions.endpoints).length > 0;
+  if (!hasOverrides) {
+    return resolved.environment;
+  }
+  return `${resolved.environment}(${resolved.wsUrl}|${resolved.httpBaseUrl}|${resolved.fileServiceBaseUrl})`;
+}
+
+/**
+ * Appends the API key to a WebSocket URL.
+ * @param wsUrl - The WebSocket base URL.
+ * @param apiKey - The API key.
+ * @returns The full WebSocket URL.
+ */
+export function buildSocketUrl(wsUrl: string, apiKey: string): string {
+  const separator = wsUrl.includes('?') ? '&' : '?';
+  return `${wsUrl}${separator}apiKey=${apiKey}`;
+}
+
+function stripTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
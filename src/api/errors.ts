@@ -0,0 +1,243 @@
+/**
+ * Stable error codes carried by every error the SDK throws, so callers can branch without matching messages.
+ */
+export const CaptivateErrorCode = {
+  CONNECTION_ERROR: 'CONNECTION_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  HTTP_ERROR: 'HTTP_ERROR',
+  AUTH_ERROR: 'AUTH_ERROR',
+  RATE_LIMITED: 'RATE_LIMITED',
+  SERVER_ERROR: 'SERVER_ERROR',
+  FILE_CONVERSION_FAILED: 'FILE_CONVERSION_FAILED',
+  VALIDATION_ERROR: 'VALIDATION_ERROR',
+  PROTOCOL_ERROR: 'PROTOCOL_ERROR'
+} as const;
+
+export type CaptivateErrorCode = typeof CaptivateErrorCode[keyof typeof CaptivateErrorCode];
+
+/**
+ * Base class for all errors thrown by the SDK.
+ */
+export class CaptivateError extends Error {
+  public readonly code: CaptivateErrorCode;
+  /**
+   * The underlying error, if this error wraps another one.
+   */
+  public readonly cause?: unknown;
+
+  constructor(code: CaptivateErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'CaptivateError';
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Thrown when the WebSocket cannot be opened, is lost, or cannot be re-established.
+ */
+export class CaptivateConnectionError extends CaptivateError {
+  constructor(message: string, cause?: unknown) {
+    super(CaptivateErrorCode.CONNECTION_ERROR, message, cause);
+    this.name = 'CaptivateConnectionError';
+  }
+}
+
+/**
+ * Thrown when an HTTP request or an expected WebSocket event does not arrive in time.
+ */
+export class CaptivateTimeoutError extends CaptivateError {
+  /**
+   * The timeout that elapsed, in milliseconds.
+   */
+  public readonly timeout: number;
+
+  constructor(message: string, timeout: number, cause?: unknown) {
+    super(CaptivateErrorCode.TIMEOUT, message, cause);
+    this.name = 'CaptivateTimeoutError';
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * Details describing a failed response from the Captivate backend.
+ */
+export interface CaptivateHttpErrorDetails {
+  /**
+   * HTTP status code, or the error_code of a general_error event (0 when there is none).
+   */
+  status: number;
+  statusText?: string;
+  body?: any;
+  eventType?: string;
+  url?: string;
+}
+
+/**
+ * Thrown when an HTTP request to the Captivate backend fails with a non-2xx status.
+ */
+export class CaptivateHttpError extends CaptivateError {
+  /**
+   * HTTP status code of the response.
+   */
+  public readonly status: number;
+  public readonly statusText: string;
+  /**
+   * Parsed response body (JSON when possible, otherwise text).
+   */
+  public readonly body: any;
+  /**
+   * The event_type of the channel message that was being sent, if any.
+   */
+  public readonly eventType?: string;
+  public readonly url?: string;
+
+  constructor(message: string, details: CaptivateHttpErrorDetails, code: CaptivateErrorCode = CaptivateErrorCode.HTTP_ERROR) {
+    super(code, message);
+    this.name = 'CaptivateHttpError';
+    this.status = details.status;
+    this.statusText = details.statusText || '';
+    this.body = details.body;
+    this.eventType = details.eventType;
+    this.url = details.url;
+  }
+}
+
+/**
+ * Thrown when the API key is missing, invalid or not allowed to perform the request (401/403).
+ */
+export class CaptivateAuthError extends CaptivateHttpError {
+  constructor(message: string, details: CaptivateHttpErrorDetails) {
+    super(message, details, CaptivateErrorCode.AUTH_ERROR);
+    this.name = 'CaptivateAuthError';
+  }
+}
+
+/**
+ * Thrown when the backend keeps rejecting requests with 429 after all retries.
+ */
+export class CaptivateRateLimitError extends CaptivateHttpError {
+  /**
+   * Delay requested by the server's Retry-After header, in milliseconds.
+   */
+  public readonly retryAfter?: number;
+
+  constructor(message: string, details: CaptivateHttpErrorDetails & { retryAfter?: number }) {
+    super(message, details, CaptivateErrorCode.RATE_LIMITED);
+    this.name = 'CaptivateRateLimitError';
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/**
+ * Thrown for 5xx responses and for general_error events sent by the server.
+ */
+export class CaptivateServerError extends CaptivateHttpError {
+  /**
+   * Conversation the error refers to, when reported through a general_error event.
+   */
+  public readonly conversationId?: string;
+
+  constructor(message: string, details: CaptivateHttpErrorDetails & { conversationId?: string }) {
+    super(message, details, CaptivateErrorCode.SERVER_ERROR);
+    this.name = 'CaptivateServerError';
+    this.conversationId = details.conversationId;
+  }
+}
+
+/**
+ * Thrown when the file service cannot convert an uploaded file to text.
+ */
+export class CaptivateFileConversionError extends CaptivateError {
+  /**
+   * HTTP status returned by the file service, if the failure came from an HTTP response.
+   */
+  public readonly status?: number;
+  public readonly fileName?: string;
+
+  constructor(message: string, details: { status?: number; fileName?: string } = {}, cause?: unknown) {
+    super(CaptivateErrorCode.FILE_CONVERSION_FAILED, message, cause);
+    this.name = 'CaptivateFileConversionError';
+    this.status = details.status;
+    this.fileName = details.fileName;
+  }
+}
+
+/**
+ * Thrown when a method is called with missing or invalid arguments.
+ */
+export class CaptivateValidationError extends CaptivateError {
+  constructor(message: string) {
+    super(CaptivateErrorCode.VALIDATION_ERROR, message);
+    this.name = 'CaptivateValidationError';
+  }
+}
+
+/**
+ * Reported when a WebSocket frame or HTTP response from the backend does not match the expected schema.
+ */
+export class CaptivateProtocolError extends CaptivateError {
+  /**
+   * Where the invalid data came from.
+   */
+  public readonly source: 'websocket' | 'http';
+  /**
+   * The event_type of the frame, or the kind of HTTP response that was checked.
+   */
+  public readonly eventType?: string;
+  /**
+   * Human-readable descriptions of each problem found.
+   */
+  public readonly issues: string[];
+  /**
+   * The offending frame or response body.
+   */
+  public readonly data: unknown;
+
+  constructor(message: string, details: { source: 'websocket' | 'http'; eventType?: string; issues: string[]; data: unknown }, cause?: unknown) {
+    super(CaptivateErrorCode.PROTOCOL_ERROR, message, cause);
+    this.name = 'CaptivateProtocolError';
+    this.source = details.source;
+    this.eventType = details.eventType;
+    this.issues = details.issues;
+    this.data = details.data;
+  }
+}
+
+/**
+ * Creates the most specific HTTP error class for a response status.
+ * @param message - The error message.
+ * @param details - The response details.
+ * @param retryAfter - Delay requested by the Retry-After header, in milliseconds.
+ * @returns A CaptivateAuthError, CaptivateRateLimitError, CaptivateServerError or CaptivateHttpError.
+ */
+export function createHttpError(message: string, details: CaptivateHttpErrorDetails, retryAfter?: number): CaptivateHttpError {
+  if (details.status === 401 || details.status === 403) {
+    return new CaptivateAuthError(message, details);
+  }
+  if (details.status === 429) {
+    return new CaptivateRateLimitError(message, { ...details, retryAfter });
+  }
+  if (details.status >= 500) {
+    return new CaptivateServerError(message, details);
+  }
+  return new CaptivateHttpError(message, details);
+}
+
+/**
+ * Creates a typed error from a general_error WebSocket event payload.
+ * @param payload - The event payload ({ conversation_id, error_code, error_desc }).
+ * @returns A CaptivateAuthError, CaptivateRateLimitError or CaptivateServerError.
+ */
+export function createGeneralError(payload: { conversation_id?: string; error_code?: number; error_desc?: string }): CaptivateHttpError {
+  const status = Number(payload.error_code) || 0;
+  const message = payload.error_desc || 'Unknown error';
+  const details = { status, body: payload, eventType: 'general_error' };
+  if (status === 401 || status === 403) {
+    return new CaptivateAuthError(message, details);
+  }
+  if (status === 429) {
+    return new CaptivateRateLimitError(message, details);
+  }
+  return new CaptivateServerError(message, { ...details, conversationId: payload.conversation_id });
+}
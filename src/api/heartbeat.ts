@@ -0,0 +1,117 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { SocketEventMessage } from './SocketEventDispatcher';
+
+/**
+ * Settings for the application-level keepalive that detects silent (half-open) sockets.
+ */
+export interface HeartbeatOptions {
+  /**
+   * Idle time after which a ping is sent, in milliseconds. Any incoming frame resets it. Defaults to 30000.
+   */
+  interval?: number;
+  /**
+   * Time to wait for any frame after a ping before the socket is considered dead, in milliseconds. Defaults to 10000.
+   */
+  timeout?: number;
+  /**
+   * Frame sent as ping. Defaults to `{ action: 'ping' }`.
+   */
+  message?: object;
+  /**
+   * `event_type` of the server's answer to a ping. Only these frames are used to measure latency. Defaults to 'pong'.
+   */
+  pongEventType?: string;
+}
+
+export const DEFAULT_HEARTBEAT_OPTIONS: Required<HeartbeatOptions> = {
+  interval: 30000,
+  timeout: 10000,
+  message: { action: 'ping' },
+  pongEventType: 'pong'
+};
+
+export type LatencyListener = (latency: number) => void;
+
+/**
+ * Watches a socket for inbound traffic. When it has been idle for `interval`, sends a ping;
+ * if nothing arrives within `timeout` the socket is reported dead. Any frame proves the socket is alive,
+ * but only a pong event gives the round-trip latency.
+ */
+export class ConnectionHeartbeat {
+  private options: Required<HeartbeatOptions>;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  /**
+   * When the outstanding ping was sent, or null if none is outstanding.
+   */
+  private pingSentAt: number | null = null;
+  private send: (data: string) => void;
+  private onDead: () => void;
+  private onLatency: LatencyListener;
+
+  /**
+   * @param options - Heartbeat settings.
+   * @param send - Sends a frame on the socket.
+   * @param onDead - Invoked once when no frame arrives in time after a ping.
+   * @param onLatency - Invoked with the round-trip time of each answered ping, in milliseconds.
+   */
+  constructor(options: HeartbeatOptions, send: (data: string) => void, onDead: () => void, onLatency: LatencyListener) {
+    this.options = { ...DEFAULT_HEARTBEAT_OPTIONS, ...options };
+    this.send = send;
+    this.onDead = onDead;
+    this.onLatency = onLatency;
+  }
+
+  /**
+   * Starts watching. Safe to call again to restart.
+   */
+  public start(): void {
+    this.stop();
+    this.scheduleIdle();
+  }
+
+  /**
+   * Stops all timers.
+   */
+  public stop(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.pingSentAt = null;
+  }
+
+  /**
+   * Records an inbound frame: measures the latency if it is the pong of the outstanding ping and restarts the idle timer.
+   * @param message - The parsed frame, or undefined if it could not be parsed.
+   */
+  public recordActivity(message?: SocketEventMessage): void {
+    if (this.pingSentAt !== null && message?.event?.event_type === this.options.pongEventType) {
+      this.onLatency(Date.now() - this.pingSentAt);
+    }
+    this.start();
+  }
+
+  private scheduleIdle(): void {
+    this.idleTimer = setTimeout(() => this.ping(), this.options.interval);
+  }
+
+  private ping(): void {
+    this.idleTimer = null;
+    this.pingSentAt = Date.now();
+    try {
+      this.send(JSON.stringify(this.options.message));
+    } catch (error) {
+      captivateLogger.log('Failed to send heartbeat ping:', error);
+    }
+    this.pongTimer = setTimeout(() => {
+      captivateLogger.log(`No WebSocket traffic within ${this.options.timeout}ms of a heartbeat ping`);
+      this.stop();
+      this.onDead();
+    }, this.options.timeout);
+  }
+}
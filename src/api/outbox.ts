@@ -0,0 +1,263 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import {
+  CaptivateConnectionError,
+  CaptivateRateLimitError,
+  CaptivateServerError,
+  CaptivateTimeoutError
+} from './errors';
+import { StorageAdapter, getDefaultStorage } from './storage';
+import { ChannelMessage } from './types';
+
+export type OutboxItemStatus = 'queued' | 'sending' | 'sent' | 'failed';
+
+export type OutboxItemKind = 'message' | 'action' | 'metadata';
+
+/**
+ * An outgoing message, action or metadata update tracked by the outbox.
+ */
+export interface OutboxItem {
+  /**
+   * The client_msg_id of the payload (or a generated ID for payloads without one).
+   */
+  id: string;
+  kind: OutboxItemKind;
+  status: OutboxItemStatus;
+  /**
+   * The channel message that is (re)sent.
+   */
+  message: ChannelMessage;
+  /**
+   * Number of send attempts made so far.
+   */
+  attempts: number;
+  createdAt: number;
+  /**
+   * Message of the last send error, if any.
+   */
+  error?: string;
+}
+
+/**
+ * Settings for the offline outbox.
+ */
+export interface OutboxOptions {
+  /**
+   * Where queued items are persisted. Defaults to `localStorage` when available, otherwise memory.
+   */
+  storage?: StorageAdapter;
+}
+
+export type OutboxListener = (item: OutboxItem, items: OutboxItem[]) => void;
+
+/**
+ * Returns true for failures that are expected to go away when the network or backend recovers.
+ */
+function isTransientError(error: unknown): boolean {
+  return error instanceof CaptivateConnectionError ||
+    error instanceof CaptivateTimeoutError ||
+    error instanceof CaptivateRateLimitError ||
+    (error instanceof CaptivateServerError && error.status >= 500);
+}
+
+/**
+ * Ordered queue of outgoing payloads for one conversation.
+ * Items are sent one at a time in order; a transient failure (offline, timeout, 429, 5xx) keeps the item
+ * queued and pauses the queue until the next flush, while other failures mark the item as failed.
+ * Pending items are persisted so they survive reloads.
+ */
+export class Outbox {
+  private items: OutboxItem[] = [];
+  private storageKey: string;
+  private storage: StorageAdapter;
+  private send: (message: ChannelMessage) => Promise<any>;
+  private listeners: Set<OutboxListener> = new Set();
+  /**
+   * Last error of each failed or re-queued item, kept in memory so callers can rethrow the original error.
+   */
+  private errors: Map<string, unknown> = new Map();
+  private flushPromise: Promise<void> | null = null;
+  /**
+   * Set when items are added while a flush is running, so the running flush picks them up.
+   */
+  private flushRequested: boolean = false;
+  /**
+   * Resolves once persisted items have been loaded.
+   */
+  private ready: Promise<void>;
+
+  /**
+   * @param storageKey - Key under which items are persisted.
+   * @param send - Sends a channel message over HTTP.
+   * @param options - Outbox settings.
+   */
+  constructor(storageKey: string, send: (message: ChannelMessage) => Promise<any>, options: OutboxOptions = {}) {
+    this.storageKey = storageKey;
+    this.send = send;
+    this.storage = options.storage || getDefaultStorage();
+    this.ready = this.load();
+  }
+
+  /**
+   * Gets a snapshot of the tracked items, oldest first.
+   */
+  public getItems(): OutboxItem[] {
+    return this.items.map((item) => ({ ...item }));
+  }
+
+  /**
+   * Registers a listener invoked whenever an item changes status.
+   * @param callback - Invoked with the changed item and a snapshot of all items.
+   * @returns A function that removes the listener.
+   */
+  public onChange(callback: OutboxListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Adds a payload to the end of the queue. A payload whose ID is already tracked is not added twice.
+   * @returns The tracked item.
+   */
+  public async enqueue(id: string, kind: OutboxItemKind, message: ChannelMessage): Promise<OutboxItem> {
+    await this.ready;
+    const existing = this.items.find((item) => item.id === id);
+    if (existing) {
+      return existing;
+    }
+    const item: OutboxItem = { id, kind, status: 'queued', message, attempts: 0, createdAt: Date.now() };
+    this.items.push(item);
+    await this.update(item);
+    return item;
+  }
+
+  /**
+   * Sends queued items in order. Concurrent calls share the running flush.
+   */
+  public flush(): Promise<void> {
+    if (this.flushPromise) {
+      this.flushRequested = true;
+      return this.flushPromise;
+    }
+    this.flushPromise = this.runFlush().finally(() => {
+      this.flushPromise = null;
+    });
+    return this.flushPromise;
+  }
+
+  /**
+   * Gets the last error recorded for an item.
+   */
+  public getError(id: string): unknown {
+    return this.errors.get(id);
+  }
+
+  /**
+   * Queues a failed item again and flushes.
+   * @param id - The item ID.
+   */
+  public async retry(id: string): Promise<void> {
+    await this.ready;
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (item && item.status === 'failed') {
+      item.status = 'queued';
+      await this.update(item);
+    }
+    await this.flush();
+  }
+
+  /**
+   * Removes an item that has not been sent yet.
+   * @param id - The item ID.
+   */
+  public async discard(id: string): Promise<void> {
+    await this.ready;
+    const item = this.items.find((candidate) => candidate.id === id);
+    if (!item || item.status === 'sending') {
+      return;
+    }
+    this.items = this.items.filter((candidate) => candidate !== item);
+    this.errors.delete(id);
+    await this.persist();
+  }
+
+  private async runFlush(): Promise<void> {
+    await this.ready;
+    do {
+      this.flushRequested = false;
+      for (const item of this.items.slice()) {
+        if (item.status !== 'queued' || !this.items.includes(item)) {
+          continue;
+        }
+
+        item.status = 'sending';
+        item.attempts++;
+        await this.update(item);
+
+        try {
+          await this.send(item.message);
+          item.status = 'sent';
+          delete item.error;
+          this.errors.delete(item.id);
+          this.items = this.items.filter((candidate) => candidate !== item);
+          await this.update(item);
+        } catch (error: any) {
+          item.error = error?.message || String(error);
+          this.errors.set(item.id, error);
+          if (isTransientError(error)) {
+            // Keep order: stop here and resume with this item on the next flush
+            item.status = 'queued';
+            await this.update(item);
+            captivateLogger.log(`Outbox paused, ${item.kind} ${item.id} will be retried:`, item.error);
+            return;
+          }
+          item.status = 'failed';
+          await this.update(item);
+        }
+      }
+    } while (this.flushRequested);
+  }
+
+  /**
+   * Persists the queue and notifies listeners about a changed item.
+   */
+  private async update(item: OutboxItem): Promise<void> {
+    await this.persist();
+    const snapshot = this.getItems();
+    const changed = { ...item };
+    this.listeners.forEach((listener) => {
+      try {
+        listener(changed, snapshot);
+      } catch (error) {
+        captivateLogger.error('Error in outbox listener:', error);
+      }
+    });
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      if (this.items.length === 0) {
+        await this.storage.removeItem(this.storageKey);
+      } else {
+        await this.storage.setItem(this.storageKey, JSON.stringify(this.items));
+      }
+    } catch (error) {
+      captivateLogger.error('Failed to persist outbox:', error);
+    }
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const stored = await this.storage.getItem(this.storageKey);
+      if (!stored) {
+        return;
+      }
+      const items: OutboxItem[] = JSON.parse(stored);
+      // An item that was being sent when the app stopped may or may not have arrived; the server dedupes by client_msg_id
+      this.items = items.map((item) => (item.status === 'sending' ? { ...item, status: 'queued' } : item));
+    } catch (error) {
+      captivateLogger.error('Failed to load outbox:', error);
+    }
+  }
+}
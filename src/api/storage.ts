@@ -0,0 +1,190 @@
+/**
+ * Minimal key-value storage used to persist SDK state. Matches the shape of `localStorage`
+ * and React Native's `AsyncStorage`, so either can be passed directly.
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null> | string | null;
+  setItem(key: string, value: string): Promise<void> | void;
+  removeItem(key: string): Promise<void> | void;
+}
+
+/**
+ * Keeps values in memory. Data does not survive a page reload or process restart.
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private values: Map<string, string> = new Map();
+
+  public getItem(key: string): string | null {
+    return this.values.has(key) ? this.values.get(key)! : null;
+  }
+
+  public setItem(key: string, value: string): void {
+    this.values.set(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.values.delete(key);
+  }
+}
+
+/**
+ * Persists values in the browser's `localStorage` (or another Web Storage object).
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private storage: Storage;
+
+  /**
+   * @param storage - The Web Storage object to use. Defaults to `localStorage`.
+   */
+  constructor(storage?: Storage) {
+    this.storage = storage || globalThis.localStorage;
+  }
+
+  public getItem(key: string): string | null {
+    return this.storage.getItem(key);
+  }
+
+  public setItem(key: string, value: string): void {
+    this.storage.setItem(key, value);
+  }
+
+  public removeItem(key: string): void {
+    this.storage.removeItem(key);
+  }
+}
+
+/**
+ * Persists values in an IndexedDB object store. Suited to browser caches that outgrow `localStorage`.
+ */
+export class IndexedDBStorageAdapter implements StorageAdapter {
+  private dbName: string;
+  private storeName: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  /**
+   * @param dbName - Name of the database. Defaults to 'captivate-chat'.
+   * @param storeName - Name of the object store. Defaults to 'keyval'.
+   */
+  constructor(dbName: string = 'captivate-chat', storeName: string = 'keyval') {
+    this.dbName = dbName;
+    this.storeName = storeName;
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    const value = await this.request('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = globalThis.indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Allow a later call to retry after a failed open
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<unknown> {
+    const db = await this.open();
+    return new Promise((resolve, reject) => {
+      const request = run(db.transaction(this.storeName, mode).objectStore(this.storeName));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Persists values as files in a directory, one file per key. For Node.js only.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  private directory: string;
+
+  /**
+   * @param directory - Directory the files are written to. Created when the first value is stored.
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  public async getItem(key: string): Promise<string | null> {
+    try {
+      return await this.fs().readFile(this.getPath(key), 'utf8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  public async setItem(key: string, value: string): Promise<void> {
+    await this.fs().mkdir(this.directory, { recursive: true });
+    await this.fs().writeFile(this.getPath(key), value, 'utf8');
+  }
+
+  public async removeItem(key: string): Promise<void> {
+    await this.fs().rm(this.getPath(key), { force: true });
+  }
+
+  private getPath(key: string): string {
+    const path: typeof import('path') = require('path');
+    return path.join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+
+  private fs(): typeof import('fs').promises {
+    return require('fs').promises;
+  }
+}
+
+/**
+ * Hashes an API key for use in storage keys, so the key itself is never written to storage.
+ * A fast non-cryptographic 53-bit hash (cyrb53): it only needs to keep the keys of different API keys apart.
+ * @param value - The value to hash.
+ * @returns The hash in base 36.
+ */
+export function hashStorageKey(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Returns `localStorage` when the environment provides it, otherwise an in-memory store.
+ */
+export function getDefaultStorage(): StorageAdapter {
+  try {
+    if (typeof globalThis !== 'undefined' && globalThis.localStorage) {
+      return new LocalStorageAdapter(globalThis.localStorage);
+    }
+  } catch {
+    // Accessing localStorage throws when storage is disabled (e.g. some private browsing modes)
+  }
+  return new MemoryStorageAdapter();
+}
@@ -0,0 +1,145 @@
+import { Action, TranscriptEntry, TranscriptFile, TranscriptPageOptions, TranscriptSender } from './types';
+
+/**
+ * Reads the message ID of a message payload or transcript entry.
+ */
+export function getEntryMessageId(entry: any): string | undefined {
+  const messageId = entry?.message_id ?? entry?.id;
+  return messageId !== undefined && messageId !== null ? String(messageId) : undefined;
+}
+
+/**
+ * Reads a timestamp (epoch seconds, epoch milliseconds or date string) from a message or transcript entry.
+ * @returns The timestamp in milliseconds, or undefined if none is present.
+ */
+export function getEntryTimestamp(entry: any): number | undefined {
+  const value = entry?.timestamp ?? entry?.created_at ?? entry?.createdAt;
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  const time = typeof value === 'number'
+    ? (value < 1e12 ? value * 1000 : value)
+    : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Maps the sender field of a transcript entry (`from`, `sender` or `role`) to a TranscriptSender.
+ */
+export function getEntrySender(entry: any): TranscriptSender {
+  const from = entry?.from ?? entry?.sender ?? entry?.role;
+  switch (typeof from === 'string' ? from.toLowerCase() : from) {
+    case 'bot':
+    case 'ai_agent':
+    case 'assistant':
+      return 'ai_agent';
+    case 'human_agent':
+    case 'agent':
+    case 'livechat':
+      return 'human_agent';
+    case 'user':
+    case 'human':
+    case 'client':
+    case 'customer':
+      return 'user';
+    case 'system':
+      return 'system';
+    default:
+      return 'unknown';
+  }
+}
+
+function getText(content: any, fallback: unknown): string | undefined {
+  if (typeof content === 'string') {
+    return content;
+  }
+  const items = Array.isArray(content) ? content : [content];
+  const textItem = items.find((item) => typeof item?.text === 'string');
+  if (textItem) {
+    return textItem.text;
+  }
+  return typeof fallback === 'string' ? fallback : undefined;
+}
+
+function getFiles(entry: any, content: any): TranscriptFile[] {
+  const files: any[] = [];
+  if (Array.isArray(entry.files)) {
+    files.push(...entry.files);
+  } else {
+    const items = Array.isArray(content) ? content : [content];
+    items.forEach((item) => {
+      // Outgoing content carries `files` directly; agent FilesContent nests them as files.files
+      const itemFiles = Array.isArray(item?.files) ? item.files : item?.files?.files;
+      if (Array.isArray(itemFiles)) {
+        files.push(...itemFiles);
+      }
+    });
+  }
+  return files.filter((file) => file && typeof file === 'object').map((file) => ({
+    filename: file.filename ?? null,
+    type: file.type ?? 'file',
+    mimetype: file.mimetype,
+    url: file.storage?.presignedUrl ?? file.url,
+    storage: file.storage,
+  }));
+}
+
+function getActions(entry: any, content: any): Action[] {
+  const candidates = [entry.actions, content?.actions, entry.type === 'action' || entry.event_type === 'action' ? entry.data?.actions ?? [entry] : undefined];
+  const actions = candidates.find((candidate) => Array.isArray(candidate)) || [];
+  return actions
+    .filter((action: any) => action && typeof action.id === 'string')
+    .map((action: any) => ({ id: action.id, data: action.data ?? {} }));
+}
+
+/**
+ * Converts a raw transcript entry to a TranscriptEntry.
+ * @param raw - The entry as returned by the server.
+ */
+export function normalizeTranscriptEntry(raw: any): TranscriptEntry {
+  const content = raw?.content ?? (typeof raw?.text === 'string' ? { type: 'text', text: raw.text } : undefined);
+  return {
+    messageId: getEntryMessageId(raw),
+    sender: getEntrySender(raw),
+    timestamp: getEntryTimestamp(raw),
+    content,
+    text: getText(content, raw?.text),
+    files: getFiles(raw || {}, content),
+    actions: getActions(raw || {}, content),
+    raw,
+  };
+}
+
+/**
+ * Applies cursors and limit to a full transcript, for backends that do not page server-side.
+ * Cursors that are not in the transcript are ignored.
+ * @param transcript - All raw entries, oldest first.
+ * @param options - Cursors and limit.
+ * @returns The entries of the page, oldest first, and whether more exist in the paging direction.
+ */
+export function paginateTranscript(transcript: any[], options: TranscriptPageOptions): { entries: any[]; hasMore: boolean } {
+  const indexOf = (messageId: string) => transcript.findIndex((entry) => getEntryMessageId(entry) === messageId);
+  let start = 0;
+  let end = transcript.length;
+  if (options.after !== undefined) {
+    const index = indexOf(options.after);
+    if (index >= 0) {
+      start = index + 1;
+    }
+  }
+  if (options.before !== undefined) {
+    const index = indexOf(options.before);
+    if (index >= 0) {
+      end = index;
+    }
+  }
+
+  const entries = transcript.slice(start, Math.max(start, end));
+  const { limit } = options;
+  if (limit === undefined || entries.length <= limit) {
+    return { entries, hasMore: false };
+  }
+  // Paging forward from `after` returns the oldest entries; otherwise the newest
+  const forward = options.after !== undefined && options.before === undefined;
+  return { entries: forward ? entries.slice(0, limit) : entries.slice(-limit), hasMore: true };
+}
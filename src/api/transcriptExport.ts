@@ -0,0 +1,295 @@
+import { CaptivateValidationError } from './errors';
+import { TranscriptEntry, TranscriptFile, TranscriptSender } from './types';
+
+export type BuiltInTranscriptFormat = 'markdown' | 'html' | 'json' | 'text';
+
+/**
+ * Options accepted by Conversation.exportTranscript().
+ */
+export interface TranscriptExportOptions {
+  /**
+   * A built-in format, the name of a format added with registerTranscriptFormatter, or a formatter. Defaults to 'markdown'.
+   */
+  format?: BuiltInTranscriptFormat | (string & {}) | TranscriptFormatter;
+  /**
+   * Whether file attachments (with refreshed presigned URLs) are listed. Defaults to true.
+   */
+  includeFiles?: boolean;
+  /**
+   * Whether the conversation metadata is fetched and included. Defaults to false.
+   */
+  includeMetadata?: boolean;
+  /**
+   * Labels shown for each sender, merged over the defaults ('User', 'AI Agent', 'Human Agent', ...).
+   */
+  senderLabels?: Partial<Record<TranscriptSender, string>>;
+  /**
+   * Formats entry timestamps (epoch milliseconds). Defaults to ISO 8601 in UTC.
+   */
+  formatTimestamp?: (timestamp: number) => string;
+}
+
+/**
+ * Everything a formatter needs besides the entries.
+ */
+export interface TranscriptExportContext {
+  conversationId: string;
+  /**
+   * Conversation metadata, when includeMetadata is set.
+   */
+  metadata?: object;
+  includeFiles: boolean;
+  /**
+   * Time of the export, in epoch milliseconds.
+   */
+  exportedAt: number;
+  /**
+   * Label of a sender, with the caller's overrides applied.
+   */
+  senderLabel(sender: TranscriptSender): string;
+  formatTimestamp(timestamp: number): string;
+}
+
+/**
+ * Renders transcript entries into a document. Implement it to add custom export formats.
+ */
+export interface TranscriptFormatter {
+  /**
+   * MIME type of the output, e.g. for email attachments.
+   */
+  mimeType: string;
+  format(entries: TranscriptEntry[], context: TranscriptExportContext): string;
+}
+
+export const DEFAULT_SENDER_LABELS: Record<TranscriptSender, string> = {
+  user: 'User',
+  ai_agent: 'AI Agent',
+  human_agent: 'Human Agent',
+  system: 'System',
+  unknown: 'Unknown',
+};
+
+/**
+ * Describes an entry's content as lines of plain text. Rich content (buttons, cards, custom content)
+ * is summarized, and HTML is kept as source so each formatter can escape it.
+ */
+export function describeContent(entry: TranscriptEntry): string[] {
+  const { content } = entry;
+  if (typeof content === 'string') {
+    return [content];
+  }
+  const items: any[] = Array.isArray(content) ? content : content ? [content] : [];
+  const lines: string[] = [];
+  items.forEach((item) => {
+    switch (item?.type) {
+      case 'md':
+        lines.push(item.md?.md ?? '');
+        break;
+      case 'html':
+        lines.push(item.html?.html ?? '');
+        break;
+      case 'buttons':
+        lines.push(`[Buttons] ${(item.buttons?.buttons || []).map((button: any) => button.title).join(', ')}`);
+        break;
+      case 'cards':
+        (item.cards?.cards || []).forEach((card: any) => {
+          lines.push(`[Card] ${card.text}${card.description ? ` - ${card.description}` : ''}`);
+        });
+        break;
+      case 'files':
+        // Listed with the attachments
+        if (typeof item.text === 'string') {
+          lines.push(item.text);
+        }
+        break;
+      case 'any':
+        lines.push('[Custom content]');
+        break;
+      default:
+        if (typeof item?.text === 'string') {
+          lines.push(item.text);
+        }
+    }
+  });
+  if (lines.length === 0 && entry.text) {
+    lines.push(entry.text);
+  }
+  return lines;
+}
+
+/**
+ * URL schemes rendered as links. Anything else (e.g. `javascript:` or `data:`) is rendered as text.
+ */
+const LINK_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+function isLinkableUrl(url: string): boolean {
+  try {
+    return LINK_PROTOCOLS.includes(new URL(url).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function fileLabel(file: TranscriptFile): string {
+  return file.filename || file.url || 'file';
+}
+
+/**
+ * Escapes brackets in Markdown link text, so a file name cannot close the label or form a link of its own.
+ */
+function escapeMarkdownLabel(value: string): string {
+  return value.replace(/[\\[\]]/g, '\\$&');
+}
+
+/**
+ * Percent-encodes the characters that would end a Markdown link destination early.
+ */
+function escapeMarkdownUrl(url: string): string {
+  return url.replace(/[()\s]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function entryHeading(entry: TranscriptEntry, context: TranscriptExportContext): string {
+  const label = context.senderLabel(entry.sender);
+  return entry.timestamp !== undefined ? `${label} (${context.formatTimestamp(entry.timestamp)})` : label;
+}
+
+const markdownFormatter: TranscriptFormatter = {
+  mimeType: 'text/markdown',
+  format(entries, context) {
+    const lines = [`# Conversation ${context.conversationId}`, ''];
+    if (context.metadata) {
+      lines.push('## Metadata', '', '```json', JSON.stringify(context.metadata, null, 2), '```', '');
+    }
+    entries.forEach((entry) => {
+      lines.push(`**${entryHeading(entry, context)}**`, '');
+      describeContent(entry).forEach((line) => lines.push(line, ''));
+      entry.actions.forEach((action) => lines.push(`> Action \`${action.id}\`: \`${JSON.stringify(action.data)}\``, ''));
+      if (context.includeFiles) {
+        entry.files.forEach((file) => {
+          const label = escapeMarkdownLabel(fileLabel(file));
+          lines.push(file.url && isLinkableUrl(file.url) ? `- [${label}](${escapeMarkdownUrl(file.url)})` : `- ${label}`);
+        });
+        if (entry.files.length > 0) {
+          lines.push('');
+        }
+      }
+    });
+    return lines.join('\n').trimEnd() + '\n';
+  },
+};
+
+const htmlFormatter: TranscriptFormatter = {
+  mimeType: 'text/html',
+  format(entries, context) {
+    const title = escapeHtml(`Conversation ${context.conversationId}`);
+    const parts = [`<!DOCTYPE html>`, `<html>`, `<head><meta charset="utf-8"><title>${title}</title></head>`, `<body>`, `<h1>${title}</h1>`];
+    if (context.metadata) {
+      parts.push(`<h2>Metadata</h2>`, `<pre>${escapeHtml(JSON.stringify(context.metadata, null, 2))}</pre>`);
+    }
+    entries.forEach((entry) => {
+      parts.push(`<div class="entry ${entry.sender}">`, `<p><strong>${escapeHtml(entryHeading(entry, context))}</strong></p>`);
+      describeContent(entry).forEach((line) => parts.push(`<p>${escapeHtml(line).replace(/\n/g, '<br>')}</p>`));
+      entry.actions.forEach((action) => {
+        parts.push(`<p class="action">Action <code>${escapeHtml(action.id)}</code>: <code>${escapeHtml(JSON.stringify(action.data))}</code></p>`);
+      });
+      if (context.includeFiles && entry.files.length > 0) {
+        parts.push('<ul class="files">');
+        entry.files.forEach((file) => {
+          const label = escapeHtml(fileLabel(file));
+          parts.push(file.url && isLinkableUrl(file.url) ? `<li><a href="${escapeHtml(file.url)}">${label}</a></li>` : `<li>${label}</li>`);
+        });
+        parts.push('</ul>');
+      }
+      parts.push('</div>');
+    });
+    parts.push('</body>', '</html>');
+    return parts.join('\n') + '\n';
+  },
+};
+
+const jsonFormatter: TranscriptFormatter = {
+  mimeType: 'application/json',
+  format(entries, context) {
+    return JSON.stringify({
+      conversationId: context.conversationId,
+      exportedAt: new Date(context.exportedAt).toISOString(),
+      ...(context.metadata ? { metadata: context.metadata } : {}),
+      entries: entries.map((entry) => ({
+        messageId: entry.messageId,
+        sender: entry.sender,
+        senderLabel: context.senderLabel(entry.sender),
+        timestamp: entry.timestamp !== undefined ? context.formatTimestamp(entry.timestamp) : undefined,
+        content: entry.content,
+        text: entry.text,
+        actions: entry.actions,
+        ...(context.includeFiles ? { files: entry.files } : {}),
+      })),
+    }, null, 2);
+  },
+};
+
+const textFormatter: TranscriptFormatter = {
+  mimeType: 'text/plain',
+  format(entries, context) {
+    const lines = [`Conversation ${context.conversationId}`, ''];
+    if (context.metadata) {
+      lines.push(`Metadata: ${JSON.stringify(context.metadata)}`, '');
+    }
+    entries.forEach((entry) => {
+      lines.push(`${entryHeading(entry, context)}:`);
+      describeContent(entry).forEach((line) => lines.push(`  ${line.replace(/\n/g, '\n  ')}`));
+      entry.actions.forEach((action) => lines.push(`  [Action] ${action.id} ${JSON.stringify(action.data)}`));
+      if (context.includeFiles) {
+        entry.files.forEach((file) => lines.push(`  [File] ${fileLabel(file)}${file.url && file.filename ? ` <${file.url}>` : ''}`));
+      }
+      lines.push('');
+    });
+    return lines.join('\n').trimEnd() + '\n';
+  },
+};
+
+const formatters: Map<string, TranscriptFormatter> = new Map([
+  ['markdown', markdownFormatter],
+  ['html', htmlFormatter],
+  ['json', jsonFormatter],
+  ['text', textFormatter],
+]);
+
+/**
+ * Registers (or replaces) a named transcript export format, e.g. 'csv'.
+ * @param name - The format name passed to exportTranscript().
+ * @param formatter - The formatter.
+ */
+export function registerTranscriptFormatter(name: string, formatter: TranscriptFormatter): void {
+  if (!name) {
+    throw new CaptivateValidationError('Transcript format name must be provided.');
+  }
+  if (!formatter || typeof formatter.format !== 'function') {
+    throw new CaptivateValidationError('Transcript formatter must have a format() function.');
+  }
+  formatters.set(name, formatter);
+}
+
+/**
+ * Resolves a format name or formatter.
+ * @throws CaptivateValidationError for unknown format names.
+ */
+export function getTranscriptFormatter(format: TranscriptExportOptions['format'] = 'markdown'): TranscriptFormatter {
+  if (typeof format === 'object' && format !== null) {
+    return format;
+  }
+  const formatter = formatters.get(format);
+  if (!formatter) {
+    throw new CaptivateValidationError(`Unknown transcript format "${format}". Available: ${Array.from(formatters.keys()).join(', ')}.`);
+  }
+  return formatter;
+}
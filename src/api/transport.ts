@@ -0,0 +1,243 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { CaptivateConnectionError, CaptivateTimeoutError, createHttpError } from './errors';
+import { ChannelMessage } from './types';
+
+/**
+ * Default timeout and retry behaviour for HTTP requests.
+ */
+export interface HttpTransportOptions {
+  /**
+   * Per-request timeout in milliseconds. Defaults to 30000.
+   */
+  timeout?: number;
+  /**
+   * Number of retries for 429, 502, 503 and 504 responses. Defaults to 3.
+   */
+  maxRetries?: number;
+  /**
+   * Base delay for exponential backoff in milliseconds. Defaults to 500.
+   */
+  retryBaseDelay?: number;
+  /**
+   * Upper bound for a single backoff delay (including Retry-After) in milliseconds. Defaults to 30000.
+   */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Options for a single HTTP request.
+ */
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  headers?: Record<string, string>;
+  /**
+   * JSON-serializable body. Sets the Content-Type header automatically.
+   */
+  json?: unknown;
+  /**
+   * Raw body (e.g. FormData). Ignored when `json` is provided.
+   */
+  body?: BodyInit;
+  /**
+   * Overrides the transport timeout for this request.
+   */
+  timeout?: number;
+  /**
+   * Overrides the transport retry count for this request.
+   */
+  maxRetries?: number;
+  /**
+   * The channel event_type being sent, attached to errors for easier handling.
+   */
+  eventType?: string;
+}
+
+/**
+ * Shared HTTP transport used by CaptivateChatAPI, Conversation and CaptivateChatFileManager.
+ * Handles per-request timeouts, exponential backoff retries for 429/502/503/504 (honouring Retry-After)
+ * and raises CaptivateHttpError (or a more specific subclass) for failed responses.
+ */
+export class HttpTransport {
+  private options: Required<HttpTransportOptions>;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.options = {
+      timeout: options.timeout ?? 30000,
+      maxRetries: options.maxRetries ?? 3,
+      retryBaseDelay: options.retryBaseDelay ?? 500,
+      maxRetryDelay: options.maxRetryDelay ?? 30000
+    };
+  }
+
+  /**
+   * Sends an HTTP request and parses the response body.
+   * JSON responses are returned as objects; other responses are returned as text.
+   * @param url - The request URL.
+   * @param options - Request options.
+   * @returns A promise that resolves to the parsed response body.
+   */
+  public async request<T = any>(url: string, options: HttpRequestOptions = {}): Promise<T> {
+    const maxRetries = options.maxRetries ?? this.options.maxRetries;
+    let attempt = 0;
+
+    while (true) {
+      const { response, body } = await this.fetchWithTimeout(url, options);
+
+      if (response.ok) {
+        return body as T;
+      }
+
+      const retryAfter = HttpTransport.parseRetryAfter(response.headers.get('retry-after'));
+
+      if (attempt < maxRetries && HttpTransport.isRetryableStatus(response.status)) {
+        const delay = this.getRetryDelay(attempt, retryAfter);
+        captivateLogger.log(`HTTP ${response.status} from ${url}, retrying in ${delay}ms (attempt ${attempt + 1}/${maxRetries})`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        attempt++;
+        continue;
+      }
+
+      throw createHttpError(`HTTP request failed: ${response.status} ${response.statusText}`, {
+        status: response.status,
+        statusText: response.statusText,
+        body,
+        eventType: options.eventType,
+        url
+      }, retryAfter);
+    }
+  }
+
+  /**
+   * Posts a custom-channel message (the `{ action, event }` envelope) to the channel HTTP API.
+   * The socket ID is attached to the event so the server can route replies to the WebSocket.
+   * @param baseUrl - The channel HTTP base URL.
+   * @param apiKey - The API key for authentication.
+   * @param socketId - The socket ID received from socket_connected, if any.
+   * @param message - The message envelope to send.
+   * @param options - Optional per-request timeout and retry overrides.
+   * @returns A promise that resolves to the response data.
+   */
+  public async sendChannelMessage(
+    baseUrl: string,
+    apiKey: string,
+    socketId: string | null,
+    message: ChannelMessage,
+    options: Pick<HttpRequestOptions, 'timeout' | 'maxRetries'> = {}
+  ): Promise<any> {
+    const messageWithSocketId = {
+      ...message,
+      event: {
+        ...message.event,
+        socket_id: socketId
+      }
+    };
+
+    const responseData = await this.request(`${baseUrl}/api/custom-channel/sockets/message`, {
+      ...options,
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'Accept': 'application/json'
+      },
+      json: messageWithSocketId,
+      eventType: message.event.event_type
+    });
+
+    if (typeof responseData === 'string') {
+      // Handle plain text response (like "OK")
+      captivateLogger.log('Server returned plain text:', responseData);
+      return {
+        status: 'success',
+        message: responseData
+      };
+    }
+
+    captivateLogger.log('Payload received from server via HTTP:', responseData);
+    return responseData;
+  }
+
+  /**
+   * Performs a single fetch and reads its body, aborting both after the configured timeout.
+   */
+  private async fetchWithTimeout(url: string, options: HttpRequestOptions): Promise<{ response: Response; body: any }> {
+    const timeout = options.timeout ?? this.options.timeout;
+    const controller = new AbortController();
+    const timedOut = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => {
+        reject(new CaptivateTimeoutError(`HTTP request to ${url} timed out after ${timeout}ms`, timeout));
+      }, { once: true });
+    });
+    timedOut.catch(() => {});
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+    const headers: Record<string, string> = { ...options.headers };
+    let body = options.body;
+    if (options.json !== undefined) {
+      headers['Content-Type'] = 'application/json';
+      body = JSON.stringify(options.json);
+    }
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: options.method || 'GET',
+          headers,
+          body,
+          signal: controller.signal
+        });
+      } catch (error: any) {
+        if (error?.name === 'AbortError') {
+          throw new CaptivateTimeoutError(`HTTP request to ${url} timed out after ${timeout}ms`, timeout, error);
+        }
+        throw new CaptivateConnectionError(`HTTP request to ${url} failed: ${error?.message || 'Network error'}`, error);
+      }
+      // A stalled body read is covered by the same timeout
+      return { response, body: await Promise.race([this.parseBody(response), timedOut]) };
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Reads the response body as JSON when the content type says so, otherwise as text.
+   */
+  private async parseBody(response: Response): Promise<any> {
+    const contentType = response.headers.get('content-type');
+    if (contentType && contentType.includes('application/json')) {
+      return response.json().catch(() => null);
+    }
+    return response.text().catch(() => '');
+  }
+
+  /**
+   * Computes the backoff delay, preferring the server's Retry-After delay when present.
+   */
+  private getRetryDelay(attempt: number, retryAfter: number | undefined): number {
+    if (retryAfter !== undefined) {
+      return Math.min(retryAfter, this.options.maxRetryDelay);
+    }
+    return Math.min(this.options.retryBaseDelay * 2 ** attempt, this.options.maxRetryDelay);
+  }
+
+  /**
+   * Parses a Retry-After header (seconds or HTTP date) into milliseconds.
+   */
+  private static parseRetryAfter(retryAfter: string | null): number | undefined {
+    if (!retryAfter) {
+      return undefined;
+    }
+    const seconds = Number(retryAfter);
+    const delay = Number.isNaN(seconds)
+      ? new Date(retryAfter).getTime() - Date.now()
+      : seconds * 1000;
+    return Number.isNaN(delay) ? undefined : Math.max(delay, 0);
+  }
+
+  /**
+   * Other 5xx responses may come after the server already processed the request, so retrying could repeat it.
+   */
+  private static isRetryableStatus(status: number): boolean {
+    return status === 429 || status === 502 || status === 503 || status === 504;
+  }
+}
@@ -0,0 +1,645 @@
+import { CaptivateHttpError } from './errors';
+import type { CaptivateChatFileManager } from './CaptivateChatFileManager';
+
+/**
+ * Text extracted from an uploaded file by the file service.
+ */
+export interface FileTextContent {
+  type: 'file_content';
+  text: string;
+  metadata: {
+    source: 'file_attachment';
+    originalFileName: string;
+    storageType?: 'direct';
+  };
+}
+
+/**
+ * Storage details of a file kept by the file service (storage: true).
+ */
+export interface FileStorageInfo {
+  fileKey: string;
+  presignedUrl: string;
+  /**
+   * Expiry of the presigned URL, in epoch seconds.
+   */
+  expiresIn: number;
+  fileSize?: number;
+  processingTime?: number;
+}
+
+/**
+ * A file attached to an outgoing message, as produced by CaptivateChatFileManager.
+ */
+export interface FileAttachment {
+  filename: string;
+  type: string;
+  file?: File | Blob;
+  /**
+   * Developer-provided URL (storage: false).
+   */
+  url?: string;
+  textContent: FileTextContent;
+  storage?: FileStorageInfo;
+}
+
+/**
+ * Files accepted in outgoing content: an array of attachments or a CaptivateChatFileManager used directly.
+ */
+export type OutgoingFiles = FileAttachment[] | CaptivateChatFileManager;
+
+export interface TextContent {
+  type: 'text';
+  text: string;
+}
+
+export interface ButtonsContent {
+  type: 'buttons';
+  buttons: {
+    type: 'buttons';
+    buttons: Array<{ title: string; url?: string }>;
+  };
+}
+
+export interface Card {
+  text: string;
+  description?: string;
+  image_url?: string;
+  link?: string;
+}
+
+export interface CardsContent {
+  type: 'cards';
+  cards: {
+    type: 'cards';
+    cards: Card[];
+  };
+}
+
+export interface HtmlContent {
+  type: 'html';
+  html: {
+    type: 'html';
+    html: string;
+  };
+}
+
+export interface MarkdownContent {
+  type: 'md';
+  md: {
+    type: 'md';
+    md: string;
+  };
+}
+
+/**
+ * A file sent by an agent.
+ */
+export interface MessageFile {
+  /**
+   * 'image', 'document', 'audio', ...
+   */
+  type: string;
+  url: string;
+  mimetype: string;
+  filename: string | null;
+}
+
+export interface FilesContent {
+  type: 'files';
+  files: {
+    type: 'files';
+    files: MessageFile[];
+  };
+}
+
+/**
+ * Free-form content defined by the AI developer.
+ */
+export interface CustomContent {
+  type: 'any';
+  any: {
+    type: 'any';
+    [key: string]: unknown;
+  };
+}
+
+/**
+ * One item of content sent by a bot or human agent, discriminated by `type`.
+ */
+export type MessageContentItem =
+  | TextContent
+  | ButtonsContent
+  | CardsContent
+  | HtmlContent
+  | MarkdownContent
+  | FilesContent
+  | CustomContent;
+
+/**
+ * Content of a bot or live chat message: a single item or a list of items.
+ */
+export type AgentMessageContent = MessageContentItem | MessageContentItem[];
+
+export interface OutgoingTextContent {
+  type: 'text';
+  text: string;
+  files?: OutgoingFiles;
+  actions?: unknown[];
+}
+
+export interface OutgoingFilesContent {
+  type: 'files';
+  files: OutgoingFiles;
+  text?: string;
+}
+
+/**
+ * Text with file attachments and no `type` (the recommended format for files).
+ */
+export interface OutgoingTextAndFilesContent {
+  type?: undefined;
+  text: string;
+  files: OutgoingFiles;
+}
+
+/**
+ * Content accepted by sendMessage() and editMessage(). A plain string is sent as `{ type: 'text', text }`.
+ */
+export type OutgoingMessageContent =
+  | OutgoingTextContent
+  | OutgoingFilesContent
+  | OutgoingTextAndFilesContent
+  | ButtonsContent
+  | CardsContent
+  | HtmlContent
+  | MarkdownContent
+  | CustomContent;
+
+/**
+ * Options accepted by sendMessage() and editMessage().
+ */
+export interface SendMessageOptions {
+  /**
+   * Client message ID to send, e.g. one assigned to an optimistic UI bubble. A UUID is generated when omitted.
+   * Reusing the ID when resending the same message lets the server deduplicate it.
+   */
+  clientMsgId?: string;
+}
+
+/**
+ * Delivered to onMessageConfirmed when the server echoes a message sent by this client.
+ */
+export interface MessageConfirmation {
+  /**
+   * The client_msg_id returned by sendMessage().
+   */
+  clientMsgId: string;
+  /**
+   * Server-assigned message ID, when the echo carries one.
+   */
+  messageId?: string;
+  /**
+   * Content as stored by the server, when the echo carries it.
+   */
+  content?: unknown;
+}
+
+/**
+ * Delivery status of a message sent by this client. 'delivered' and 'read' depend on backend support.
+ */
+export type MessageStatus = 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Delivered to onMessageStatus and MessageHandle.onStatusChange when a sent message changes status.
+ */
+export interface MessageStatusUpdate {
+  clientMsgId: string;
+  /**
+   * Server-assigned message ID, once known.
+   */
+  messageId?: string;
+  status: MessageStatus;
+  timestamp: number;
+}
+
+/**
+ * Who sent an incoming message.
+ */
+export type AgentType = 'ai_agent' | 'human_agent';
+
+/**
+ * Extra information passed as the third argument of onMessage callbacks.
+ */
+export interface MessageDetails {
+  /**
+   * True when the message was missed while disconnected and recovered from the transcript after reconnecting.
+   */
+  replayed: boolean;
+  /**
+   * Server-assigned message ID, when known.
+   */
+  messageId?: string;
+}
+
+/**
+ * An onMessage callback. Agent messages carry content; when `type` is 'error', `message` is a description string.
+ * Use IncomingMessage (from messages() or sendMessageAndWait()) to narrow the content by type.
+ */
+export type MessageCallback = (message: AgentMessageContent | string, type: AgentType | 'error', details: MessageDetails) => void;
+
+/**
+ * A message delivered by messages() and sendMessageAndWait(), with the same values onMessage passes to its callback.
+ */
+export type IncomingMessage =
+  | { type: AgentType; content: AgentMessageContent; details: MessageDetails }
+  | { type: 'error'; content: string; details: MessageDetails };
+
+/**
+ * A step of a bot message streamed token by token, delivered to onMessageStream.
+ */
+export type MessageStreamEvent =
+  | { type: 'start'; messageId: string; text: string }
+  | {
+    type: 'delta';
+    messageId: string;
+    /**
+     * Text added by this event.
+     */
+    delta: string;
+    /**
+     * Text accumulated so far.
+     */
+    text: string;
+  }
+  | {
+    type: 'end';
+    messageId: string;
+    /**
+     * The complete text.
+     */
+    text: string;
+    /**
+     * Final message content, as also delivered to onMessage.
+     */
+    content: AgentMessageContent;
+  };
+
+/**
+ * Who wrote a transcript entry.
+ */
+export type TranscriptSender = 'user' | 'ai_agent' | 'human_agent' | 'system' | 'unknown';
+
+/**
+ * A file attached to a transcript entry, normalized from user uploads and agent files.
+ */
+export interface TranscriptFile {
+  filename: string | null;
+  /**
+   * File type as stored: a MIME type for uploads, or 'image', 'document', ... for agent files.
+   */
+  type: string;
+  mimetype?: string;
+  /**
+   * Presigned URL for stored files, otherwise the file URL.
+   */
+  url?: string;
+  storage?: FileStorageInfo;
+}
+
+/**
+ * A transcript entry with normalized sender, timestamp, content and files.
+ */
+export interface TranscriptEntry {
+  messageId?: string;
+  sender: TranscriptSender;
+  /**
+   * Time of the entry in epoch milliseconds, when known.
+   */
+  timestamp?: number;
+  content: AgentMessageContent | OutgoingMessageContent | unknown;
+  /**
+   * Text of the entry, when it has any.
+   */
+  text?: string;
+  files: TranscriptFile[];
+  /**
+   * Actions recorded with the entry (action events in the transcript).
+   */
+  actions: Action[];
+  /**
+   * The entry as returned by the server.
+   */
+  raw: Record<string, any>;
+}
+
+/**
+ * Cursors and size of a transcript page. Cursors are message IDs; entries are always returned oldest first.
+ */
+export interface TranscriptPageOptions {
+  /**
+   * Only entries before this message ID (to load older history).
+   */
+  before?: string;
+  /**
+   * Only entries after this message ID (to sync newer entries).
+   */
+  after?: string;
+  /**
+   * Maximum number of entries. Without `after`, the newest entries of the range are returned.
+   */
+  limit?: number;
+}
+
+export interface TranscriptPage {
+  entries: TranscriptEntry[];
+  /**
+   * Whether more entries exist beyond this page in the paging direction.
+   */
+  hasMore: boolean;
+  /**
+   * Message ID of the oldest entry, to pass as `before` for the previous page.
+   */
+  before?: string;
+  /**
+   * Message ID of the newest entry, to pass as `after` for newer entries.
+   */
+  after?: string;
+}
+
+/**
+ * An action sent to the client by the bot or a backend process.
+ */
+export interface Action<T = Record<string, any>> {
+  id: string;
+  data: T;
+}
+
+/**
+ * Lifecycle status of a conversation, stored in its metadata as `status`.
+ */
+export type ConversationStatus = 'open' | 'closed' | 'archived';
+
+/**
+ * A rating: a numeric score (e.g. a 1-5 CSAT score) or a thumbs up/down.
+ */
+export type FeedbackRating = number | 'up' | 'down';
+
+/**
+ * Feedback on a conversation, or on a single bot message when `messageId` is set.
+ */
+export interface Feedback {
+  rating: FeedbackRating;
+  comment?: string;
+  /**
+   * Server message ID of the rated message.
+   */
+  messageId?: string;
+}
+
+/**
+ * Client-side state of a conversation, as returned by Conversation.serialize() and persisted by session resume.
+ */
+export interface SerializedConversation {
+  conversationId: string;
+  /**
+   * Last known metadata: the metadata the conversation was created with plus updates made by this client.
+   */
+  metadata: object;
+  status: ConversationStatus;
+  handoffState: HandoffState;
+  /**
+   * Message ID of the last agent message delivered to listeners, if any.
+   */
+  lastSeenMessageId: string | null;
+  /**
+   * Time of the last delivered message, in epoch milliseconds.
+   */
+  lastSeenTimestamp: number;
+}
+
+/**
+ * conversation_update types known to the SDK. Backends may send others.
+ */
+export type KnownConversationUpdateType =
+  | 'conversation_closed'
+  | 'conversation_reopened'
+  | 'conversation_archived'
+  | 'feedback_submitted'
+  | 'livechat_queued'
+  | 'livechat_assigned'
+  | 'livechat_joined'
+  | 'livechat_left'
+  | 'livechat_ended';
+
+/**
+ * Type of a conversation_update. Known types autocomplete; any other string is accepted.
+ */
+export type ConversationUpdateType = KnownConversationUpdateType | (string & {});
+
+/**
+ * An update to the conversation delivered to onConversationUpdate.
+ * Lifecycle changes (conversation_closed, conversation_reopened, conversation_archived) carry `{ status }`,
+ * and feedback_submitted carries the Feedback.
+ */
+export interface ConversationUpdate<T = any> {
+  type: ConversationUpdateType;
+  conversationId: string;
+  data: T;
+}
+
+/**
+ * A change in whether a bot or human agent is typing, delivered to onTyping.
+ */
+export interface TypingEvent {
+  agentType: AgentType;
+  isTyping: boolean;
+  /**
+   * Display name of the agent, when the event carries one.
+   */
+  agentName?: string;
+}
+
+/**
+ * A human agent joining or leaving the live chat, delivered to onAgentPresence.
+ */
+export interface AgentPresenceEvent {
+  status: 'joined' | 'left';
+  /**
+   * Display name of the agent, when the update carries one.
+   */
+  agentName?: string;
+  /**
+   * Raw data of the conversation_update event.
+   */
+  data: any;
+}
+
+/**
+ * Stage of the handoff from the bot to a human agent.
+ * 'requested' is set locally once the request is sent; the others follow conversation_update events.
+ */
+export type HandoffState = 'none' | 'requested' | 'queued' | 'assigned' | 'ended';
+
+/**
+ * A human agent, as described by livechat conversation updates.
+ */
+export interface HandoffAgent {
+  id?: string;
+  name?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * A change of the handoff state, delivered to onHandoffStateChange.
+ */
+export interface HandoffStateChange {
+  state: HandoffState;
+  previousState: HandoffState;
+  /**
+   * The assigned agent, for 'assigned'.
+   */
+  agent?: HandoffAgent;
+  /**
+   * Position in the agent queue, for 'queued' when the backend reports it.
+   */
+  queuePosition?: number;
+  /**
+   * Reason given with the request or the end of the session, when known.
+   */
+  reason?: string;
+  /**
+   * Raw data of the conversation_update event that caused the change, if any.
+   */
+  data?: any;
+}
+
+/**
+ * A general_error event delivered to onError.
+ */
+export interface ConversationErrorEvent {
+  conversationId: string;
+  errorCode: number;
+  errorDesc: string;
+  /**
+   * Typed error (CaptivateServerError, CaptivateAuthError or CaptivateRateLimitError).
+   */
+  error: CaptivateHttpError;
+}
+
+/**
+ * Callback signatures of the events that can be subscribed to with on(), once() and off().
+ */
+export interface ConversationEventMap {
+  message: MessageCallback;
+  actionReceived: (actions: Action[]) => void;
+  conversationUpdate: (update: ConversationUpdate) => void;
+  error: (error: ConversationErrorEvent) => void;
+  messageStream: (event: MessageStreamEvent) => void;
+  messageConfirmed: (confirmation: MessageConfirmation) => void;
+  messageStatus: (update: MessageStatusUpdate) => void;
+  typing: (event: TypingEvent) => void;
+  agentPresence: (event: AgentPresenceEvent) => void;
+  handoffStateChange: (change: HandoffStateChange) => void;
+  transcriptUpdate: (transcript: object[]) => void;
+  stateChange: (state: SerializedConversation) => void;
+}
+
+export type ConversationEventName = keyof ConversationEventMap;
+
+export interface AgentMessagePayload {
+  conversation_id: string;
+  content: AgentMessageContent;
+  message_id?: string;
+  /**
+   * Set on messages recovered from the transcript after a reconnect.
+   */
+  replayed?: boolean;
+}
+
+export interface MessageStreamPayload {
+  conversation_id: string;
+  message_id: string;
+  /**
+   * Text added by a bot_message_delta event.
+   */
+  delta?: string;
+  /**
+   * Final content, optionally sent with bot_message_end.
+   */
+  content?: AgentMessageContent;
+}
+
+/**
+ * Echo of a message sent by a user, carrying the client_msg_id it was sent with.
+ */
+export interface UserMessagePayload {
+  conversation_id: string;
+  client_msg_id: string;
+  message_id?: string;
+  content?: unknown;
+}
+
+/**
+ * A delivery or read receipt for a message sent by a user, identified by message_id and/or client_msg_id.
+ */
+export interface MessageStatusPayload {
+  conversation_id: string;
+  status: 'delivered' | 'read';
+  message_id?: string;
+  client_msg_id?: string;
+}
+
+/**
+ * Payload of the bot_typing and livechat_typing events.
+ */
+export interface TypingPayload {
+  conversation_id: string;
+  /**
+   * Defaults to true when omitted.
+   */
+  is_typing?: boolean;
+  agent_name?: string;
+}
+
+export interface ActionPayload {
+  conversation_id: string;
+  actions: Action[];
+}
+
+export interface ConversationUpdatePayload {
+  conversation_id: string;
+  type: ConversationUpdateType;
+  data: any;
+}
+
+/**
+ * A general_error event payload. Error 413 carries a link to a message too large for the WebSocket.
+ */
+export type GeneralErrorPayload =
+  | { conversation_id: string; error_code: 413; error_desc?: string; message_link: string }
+  | { conversation_id: string; error_code: number; error_desc?: string; message_link?: undefined };
+
+/**
+ * WebSocket events routed to a conversation, discriminated by `event_type`.
+ */
+export type ConversationSocketEvent =
+  | { event_type: 'bot_message' | 'livechat_message'; event_payload: AgentMessagePayload }
+  | { event_type: 'bot_message_start' | 'bot_message_delta' | 'bot_message_end'; event_payload: MessageStreamPayload }
+  | { event_type: 'user_message'; event_payload: UserMessagePayload }
+  | { event_type: 'message_status'; event_payload: MessageStatusPayload }
+  | { event_type: 'bot_typing' | 'livechat_typing'; event_payload: TypingPayload }
+  | { event_type: 'action'; event_payload: ActionPayload }
+  | { event_type: 'conversation_update'; event_payload: ConversationUpdatePayload }
+  | { event_type: 'general_error'; event_payload: GeneralErrorPayload };
+
+/**
+ * The envelope of every message sent to the channel HTTP API.
+ */
+export interface ChannelMessage<P extends object = object> {
+  action: 'sendMessage';
+  event: {
+    event_type: string;
+    event_payload: P;
+  };
+}
@@ -0,0 +1,287 @@
+import { captivateLogger } from './CaptivateChatAPI';
+import { CaptivateProtocolError } from './errors';
+
+/**
+ * Settings for runtime validation of WebSocket events and HTTP responses.
+ */
+export interface ValidationOptions {
+  /**
+   * When true, invalid WebSocket events are dropped instead of dispatched and invalid HTTP responses
+   * throw CaptivateProtocolError. When false (the default), problems are only reported through onProtocolError.
+   */
+  strict?: boolean;
+}
+
+export type ProtocolErrorListener = (error: CaptivateProtocolError) => void;
+
+/**
+ * HTTP responses the SDK knows the shape of.
+ */
+export type HttpResponseKind = 'transcript' | 'large_message' | 'user_conversations';
+
+type PayloadCheck = (payload: any, issues: string[]) => void;
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function requireString(payload: any, field: string, issues: string[]): void {
+  if (typeof payload[field] !== 'string' || payload[field] === '') {
+    issues.push(`${field} must be a non-empty string`);
+  }
+}
+
+function requireContent(payload: any, issues: string[]): void {
+  if (payload.content === undefined || payload.content === null) {
+    issues.push('content is missing');
+  }
+}
+
+function checkTyping(payload: any, issues: string[]): void {
+  requireString(payload, 'conversation_id', issues);
+  if (payload.is_typing !== undefined && typeof payload.is_typing !== 'boolean') {
+    issues.push('is_typing must be a boolean');
+  }
+}
+
+/**
+ * Payload schemas of the WebSocket events the SDK consumes. Unknown event types are not checked beyond the envelope.
+ */
+const eventSchemas: Record<string, PayloadCheck> = {
+  socket_connected: (payload, issues) => requireString(payload, 'socket_id', issues),
+  conversation_start_success: (payload, issues) => requireString(payload, 'conversation_id', issues),
+  bot_message: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireContent(payload, issues);
+  },
+  livechat_message: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireContent(payload, issues);
+  },
+  bot_message_start: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireString(payload, 'message_id', issues);
+  },
+  bot_message_delta: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireString(payload, 'message_id', issues);
+    if (payload.delta !== undefined && typeof payload.delta !== 'string') {
+      issues.push('delta must be a string');
+    }
+  },
+  bot_message_end: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireString(payload, 'message_id', issues);
+  },
+  user_message: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireString(payload, 'client_msg_id', issues);
+  },
+  message_status: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    if (payload.status !== 'delivered' && payload.status !== 'read') {
+      issues.push("status must be 'delivered' or 'read'");
+    }
+    if (typeof payload.message_id !== 'string' && typeof payload.client_msg_id !== 'string') {
+      issues.push('message_id or client_msg_id is required');
+    }
+  },
+  bot_typing: (payload, issues) => checkTyping(payload, issues),
+  livechat_typing: (payload, issues) => checkTyping(payload, issues),
+  action: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    if (!Array.isArray(payload.actions)) {
+      issues.push('actions must be an array');
+    } else if (payload.actions.some((action: unknown) => !isObject(action) || typeof action.id !== 'string')) {
+      issues.push('every action must be an object with a string id');
+    }
+  },
+  conversation_update: (payload, issues) => {
+    requireString(payload, 'conversation_id', issues);
+    requireString(payload, 'type', issues);
+  },
+  general_error: (payload, issues) => {
+    if (payload.error_code === undefined || Number.isNaN(Number(payload.error_code))) {
+      issues.push('error_code must be a number');
+    }
+    if (Number(payload.error_code) === 413 && typeof payload.message_link !== 'string') {
+      issues.push('message_link must be a string for error 413');
+    }
+  }
+};
+
+const responseSchemas: Record<HttpResponseKind, PayloadCheck> = {
+  transcript: (body, issues) => {
+    if (!Array.isArray(body.transcript)) {
+      issues.push('transcript must be an array');
+    }
+  },
+  large_message: (body, issues) => {
+    if (!isObject(body.botMessage)) {
+      issues.push('botMessage must be an object');
+    } else {
+      requireContent(body.botMessage, issues);
+    }
+  },
+  user_conversations: (body, issues) => {
+    if (body.conversations === undefined) {
+      return;
+    }
+    if (!Array.isArray(body.conversations)) {
+      issues.push('conversations must be an array');
+    } else if (body.conversations.some((conversation: unknown) => !isObject(conversation) || typeof conversation.conversation_id !== 'string')) {
+      issues.push('every conversation must have a string conversation_id');
+    }
+  }
+};
+
+/**
+ * Checks a parsed WebSocket frame against the SDK's event schemas.
+ * Frames without an `event` envelope (e.g. gateway replies to heartbeat pings) are not event frames and pass.
+ * @param message - The parsed frame.
+ * @returns The problems found; empty when the frame is valid.
+ */
+export function validateSocketEvent(message: unknown): string[] {
+  const issues: string[] = [];
+  if (!isObject(message)) {
+    return ['frame must be a JSON object'];
+  }
+  if (message.event === undefined) {
+    return issues;
+  }
+  if (!isObject(message.event)) {
+    return ['event must be an object'];
+  }
+  const { event_type: eventType, event_payload: payload } = message.event;
+  if (typeof eventType !== 'string' || eventType === '') {
+    issues.push('event.event_type must be a non-empty string');
+    return issues;
+  }
+  const check = eventSchemas[eventType];
+  if (payload === undefined && !check) {
+    return issues;
+  }
+  if (!isObject(payload)) {
+    issues.push('event.event_payload must be an object');
+    return issues;
+  }
+  check?.(payload, issues);
+  return issues;
+}
+
+/**
+ * Checks an HTTP response body against its expected schema.
+ * @param kind - The kind of response.
+ * @param body - The parsed response body.
+ * @returns The problems found; empty when the body is valid.
+ */
+export function validateHttpResponse(kind: HttpResponseKind, body: unknown): string[] {
+  if (!isObject(body)) {
+    return ['response body must be a JSON object'];
+  }
+  const issues: string[] = [];
+  responseSchemas[kind](body, issues);
+  return issues;
+}
+
+/**
+ * Validates incoming data for one API instance and reports problems to onProtocolError listeners.
+ * Listener failures are isolated so a bad frame can never break dispatch.
+ */
+export class ProtocolValidator {
+  private strict: boolean;
+  private listeners: Set<ProtocolErrorListener> = new Set();
+
+  constructor(options: ValidationOptions = {}) {
+    this.strict = options.strict === true;
+  }
+
+  /**
+   * Whether invalid data is rejected rather than only reported.
+   */
+  public isStrict(): boolean {
+    return this.strict;
+  }
+
+  /**
+   * Registers a listener for protocol errors.
+   * @param callback - Invoked with a CaptivateProtocolError for each invalid frame or response.
+   * @returns A function that removes the listener.
+   */
+  public onProtocolError(callback: ProtocolErrorListener): () => void {
+    this.listeners.add(callback);
+    return () => {
+      this.listeners.delete(callback);
+    };
+  }
+
+  /**
+   * Reports a frame that could not be parsed as JSON.
+   * @param data - The raw frame data.
+   * @param cause - The parse error.
+   */
+  public reportUnparsableFrame(data: unknown, cause: unknown): void {
+    this.report(new CaptivateProtocolError('Received a WebSocket frame that is not valid JSON', {
+      source: 'websocket',
+      issues: ['frame is not valid JSON'],
+      data
+    }, cause));
+  }
+
+  /**
+   * Validates a parsed WebSocket frame, reporting any problems.
+   * @param message - The parsed frame.
+   * @returns True if the frame should be dispatched (it is valid, or strict mode is off).
+   */
+  public checkSocketEvent(message: unknown): boolean {
+    const issues = validateSocketEvent(message);
+    if (issues.length === 0) {
+      return true;
+    }
+    const eventType = isObject(message) && isObject(message.event) ? message.event.event_type : undefined;
+    this.report(new CaptivateProtocolError(`Invalid ${eventType || 'WebSocket'} event: ${issues.join('; ')}`, {
+      source: 'websocket',
+      eventType: typeof eventType === 'string' ? eventType : undefined,
+      issues,
+      data: message
+    }));
+    return !this.strict;
+  }
+
+  /**
+   * Validates an HTTP response body, reporting any problems.
+   * @param kind - The kind of response.
+   * @param body - The parsed response body.
+   * @param url - The request URL, for the error message.
+   * @returns The body, unchanged.
+   * @throws CaptivateProtocolError in strict mode when the body is invalid.
+   */
+  public checkHttpResponse<T = any>(kind: HttpResponseKind, body: T, url?: string): T {
+    const issues = validateHttpResponse(kind, body);
+    if (issues.length === 0) {
+      return body;
+    }
+    const error = new CaptivateProtocolError(`Invalid ${kind} response${url ? ` from ${url}` : ''}: ${issues.join('; ')}`, {
+      source: 'http',
+      eventType: kind,
+      issues,
+      data: body
+    });
+    this.report(error);
+    if (this.strict) {
+      throw error;
+    }
+    return body;
+  }
+
+  private report(error: CaptivateProtocolError): void {
+    captivateLogger.log(error.message);
+    this.listeners.forEach((listener) => {
+      try {
+        listener(error);
+      } catch (listenerError) {
+        captivateLogger.error('Error in protocol error listener:', listenerError);
+      }
+    });
+  }
+}
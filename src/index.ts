@@ -1,6 +1,22 @@
 import { CaptivateChatAPI } from './api/CaptivateChatAPI';
 import { CaptivateChatManager } from './api/CaptivateChatManager';
 import { CaptivateChatFileManager } from './api/CaptivateChatFileManager';
+import { registerEnvironment } from './api/endpoints';
+import {
+  CaptivateError,
+  CaptivateErrorCode,
+  CaptivateConnectionError,
+  CaptivateTimeoutError,
+  CaptivateHttpError,
+  CaptivateAuthError,
+  CaptivateRateLimitError,
+  CaptivateServerError,
+  CaptivateFileConversionError,
+  CaptivateValidationError,
+  CaptivateProtocolError
+} from './api/errors';
+import { MemoryStorageAdapter, LocalStorageAdapter, IndexedDBStorageAdapter, FileStorageAdapter } from './api/storage';
+import { registerTranscriptFormatter } from './api/transcriptExport';
 
 
 
@@ -14,4 +30,111 @@ if (typeof window !== 'undefined') {
   window.CaptivateChatFileManager = CaptivateChatFileManager;
 }
 
-export { CaptivateChatAPI, CaptivateChatManager, CaptivateChatFileManager };
\ No newline at end of file
+export {
+  CaptivateChatAPI,
+  CaptivateChatManager,
+  CaptivateChatFileManager,
+  registerEnvironment,
+  CaptivateError,
+  CaptivateErrorCode,
+  CaptivateConnectionError,
+  CaptivateTimeoutError,
+  CaptivateHttpError,
+  CaptivateAuthError,
+  CaptivateRateLimitError,
+  CaptivateServerError,
+  CaptivateFileConversionError,
+  CaptivateValidationError,
+  CaptivateProtocolError,
+  MemoryStorageAdapter,
+  LocalStorageAdapter,
+  IndexedDBStorageAdapter,
+  FileStorageAdapter,
+  registerTranscriptFormatter
+};
+export type { CaptivateEndpoints, CaptivateChatOptions, CaptivateMode } from './api/endpoints';
+export type { HttpTransportOptions } from './api/transport';
+export type { ConnectionState, ReconnectOptions } from './api/connection';
+export type { HeartbeatOptions } from './api/heartbeat';
+export type { ValidationOptions } from './api/validation';
+export type { StorageAdapter } from './api/storage';
+export type { CacheOptions, CacheRecord, ChatCache } from './api/cache';
+export type {
+  UserConversationsOptions,
+  UserConversationsPayload,
+  UserConversationsResult,
+  UserConversationsPagination,
+  UserConversationsListener,
+  SessionState,
+  ResumeSessionOptions,
+  ResumedSession
+} from './api/CaptivateChatAPI';
+export type { MessageHandle } from './api/MessageHandle';
+export type { OutboxOptions, OutboxItem, OutboxItemKind, OutboxItemStatus, OutboxListener } from './api/outbox';
+export type {
+  BuiltInTranscriptFormat,
+  TranscriptExportOptions,
+  TranscriptExportContext,
+  TranscriptFormatter
+} from './api/transcriptExport';
+export type {
+  FileTextContent,
+  FileStorageInfo,
+  FileAttachment,
+  OutgoingFiles,
+  TextContent,
+  ButtonsContent,
+  Card,
+  CardsContent,
+  HtmlContent,
+  MarkdownContent,
+  MessageFile,
+  FilesContent,
+  CustomContent,
+  MessageContentItem,
+  AgentMessageContent,
+  OutgoingTextContent,
+  OutgoingFilesContent,
+  OutgoingTextAndFilesContent,
+  OutgoingMessageContent,
+  AgentType,
+  MessageDetails,
+  MessageCallback,
+  SendMessageOptions,
+  MessageConfirmation,
+  MessageStatus,
+  MessageStatusUpdate,
+  IncomingMessage,
+  MessageStreamEvent,
+  TranscriptSender,
+  TranscriptFile,
+  TranscriptEntry,
+  TranscriptPageOptions,
+  TranscriptPage,
+  Action,
+  ConversationUpdate,
+  ConversationUpdateType,
+  KnownConversationUpdateType,
+  ConversationStatus,
+  FeedbackRating,
+  Feedback,
+  TypingEvent,
+  AgentPresenceEvent,
+  HandoffState,
+  HandoffAgent,
+  HandoffStateChange,
+  SerializedConversation,
+  ConversationErrorEvent,
+  ConversationEventMap,
+  ConversationEventName,
+  AgentMessagePayload,
+  MessageStreamPayload,
+  UserMessagePayload,
+  MessageStatusPayload,
+  TypingPayload,
+  ActionPayload,
+  ConversationUpdatePayload,
+  GeneralErrorPayload,
+  ConversationSocketEvent,
+  ChannelMessage
+} from './api/types';
\ No newline at end of file
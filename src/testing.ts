@@ -0,0 +1,27 @@
+import { MockCaptivateServer } from './api/MockCaptivateServer';
+
+/**
+ * Test utilities for Node.js, published separately from the browser bundle:
+ * `import { MockCaptivateServer } from 'captivate-chat-api/dist/testing';`
+ */
+export { MockCaptivateServer };
+export type {
+  MockReply,
+  MockReplyScript,
+  MockUserMessage,
+  MockFaults,
+  MockServerOptions,
+  MockConversation,
+  MockRequest
+} from './api/MockCaptivateServer';
+
+/**
+ * Starts a mock server.
+ * @param options - Server options.
+ * @returns A promise that resolves to the running server. Pass `server.getClientOptions()` to CaptivateChatAPI.create().
+ */
+export async function startMockServer(options: ConstructorParameters<typeof MockCaptivateServer>[0] = {}): Promise<MockCaptivateServer> {
+  const server = new MockCaptivateServer(options);
+  await server.start();
+  return server;
+}
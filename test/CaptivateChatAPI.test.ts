@@ -0,0 +1,667 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  FakeWebSocket,
+  TEST_OPTIONS,
+  answerConversationStart,
+  createTestApi,
+  fakeFetch,
+  reply,
+  resetTestEnvironment,
+  settle,
+  waitFor
+} from './helpers';
+import {
+  CaptivateChatAPI,
+  CaptivateConnectionError,
+  CaptivateHttpError,
+  CaptivateProtocolError,
+  CaptivateServerError,
+  CaptivateTimeoutError,
+  CaptivateValidationError,
+  ConnectionState,
+  MemoryStorageAdapter,
+  StorageAdapter
+} from '../src';
+import { hashStorageKey } from '../src/api/storage';
+
+afterEach(() => {
+  resetTestEnvironment();
+});
+
+describe('CaptivateChatAPI registry', () => {
+  test('the constructor returns the existing instance for the same API key and environment', () => {
+    const first = new CaptivateChatAPI('registry-key', TEST_OPTIONS);
+    try {
+      assert.equal(new CaptivateChatAPI('registry-key', { ...TEST_OPTIONS }), first);
+      assert.notEqual(new CaptivateChatAPI('registry-key', 'dev'), first);
+      assert.notEqual(new CaptivateChatAPI('other-key', TEST_OPTIONS), first);
+    } finally {
+      CaptivateChatAPI.getInstance('registry-key', 'dev')?.dispose();
+      CaptivateChatAPI.getInstance('other-key', TEST_OPTIONS)?.dispose();
+      first.dispose();
+    }
+  });
+
+  test('custom endpoints get their own instance', () => {
+    const local = new CaptivateChatAPI('endpoints-key', TEST_OPTIONS);
+    const custom = new CaptivateChatAPI('endpoints-key', { ...TEST_OPTIONS, endpoints: { httpBaseUrl: 'http://localhost:5000' } });
+    try {
+      assert.notEqual(custom, local);
+      assert.equal(custom.getEndpoints().httpBaseUrl, 'http://localhost:5000');
+      assert.equal(custom.getEndpoints().wsUrl, 'ws://localhost:4000');
+    } finally {
+      local.dispose();
+      custom.dispose();
+    }
+  });
+
+  test('getInstance and hasInstance look up instances until they are disposed', () => {
+    assert.equal(CaptivateChatAPI.hasInstance('lookup-key', TEST_OPTIONS), false);
+    assert.equal(CaptivateChatAPI.getInstance('lookup-key', TEST_OPTIONS), undefined);
+
+    const api = new CaptivateChatAPI('lookup-key', TEST_OPTIONS);
+    assert.equal(CaptivateChatAPI.hasInstance('lookup-key', TEST_OPTIONS), true);
+    assert.equal(CaptivateChatAPI.getInstance('lookup-key', TEST_OPTIONS), api);
+
+    api.dispose();
+    assert.equal(CaptivateChatAPI.hasInstance('lookup-key', TEST_OPTIONS), false);
+    const next = new CaptivateChatAPI('lookup-key', TEST_OPTIONS);
+    assert.notEqual(next, api);
+    next.dispose();
+  });
+
+  test('create() connects once and reuses the connected instance', async () => {
+    const first = await createTestApi({}, 'create-key');
+    const second = await createTestApi({}, 'create-key');
+
+    assert.equal(FakeWebSocket.instances.length, 1);
+    assert.equal(second.getSocket(), first.getSocket());
+    assert.equal(FakeWebSocket.last.url, 'ws://localhost:4000?apiKey=create-key');
+  });
+
+  test('setDebugMode toggles debug logging', () => {
+    CaptivateChatAPI.setDebugMode(true);
+    assert.equal(CaptivateChatAPI.getDebugMode(), true);
+    CaptivateChatAPI.setDebugMode(false);
+    assert.equal(CaptivateChatAPI.getDebugMode(), false);
+  });
+});
+
+describe('CaptivateChatAPI connection', () => {
+  test('connect() resolves on socket_connected and exposes the socket', async () => {
+    const api = new CaptivateChatAPI('connect-key', TEST_OPTIONS);
+    const states: ConnectionState[] = [];
+    api.onConnectionStateChange((state) => states.push(state));
+    try {
+      assert.equal(api.isSocketActive(), false);
+      assert.equal(api.getConnectionState(), 'disconnected');
+
+      await api.connect();
+
+      assert.equal(api.isSocketActive(), true);
+      assert.equal(api.getSocketId(), 'socket-1');
+      assert.equal(api.getSocket(), FakeWebSocket.last as unknown);
+      assert.equal(api.getConnectionState(), 'connected');
+      assert.deepEqual(states, ['connecting', 'connected']);
+      assert.ok(api.getDispatcher());
+      assert.deepEqual(api.getEndpoints(), {
+        wsUrl: 'ws://localhost:4000',
+        httpBaseUrl: 'http://localhost:4000',
+        fileServiceBaseUrl: 'http://localhost:4000'
+      });
+    } finally {
+      api.dispose();
+    }
+  });
+
+  test('connect() rejects with CaptivateConnectionError when the socket fails', async () => {
+    FakeWebSocket.behavior = 'refuse';
+    const api = new CaptivateChatAPI('refused-key', TEST_OPTIONS);
+    try {
+      await assert.rejects(api.connect(), CaptivateConnectionError);
+      assert.equal(api.getConnectionState(), 'disconnected');
+      assert.equal(api.getSocket(), null);
+    } finally {
+      api.dispose();
+    }
+  });
+
+  test('connect() rejects when the socket closes before socket_connected', async () => {
+    FakeWebSocket.behavior = 'manual';
+    const api = new CaptivateChatAPI('closed-key', TEST_OPTIONS);
+    try {
+      const connecting = api.connect();
+      FakeWebSocket.last.drop(1006);
+      await assert.rejects(connecting, (error: Error) => error instanceof CaptivateConnectionError && /code 1006/.test(error.message));
+    } finally {
+      api.dispose();
+    }
+  });
+
+  test('connect() times out when socket_connected never arrives', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    FakeWebSocket.behavior = 'manual';
+    const api = new CaptivateChatAPI('silent-key', TEST_OPTIONS);
+    try {
+      const connecting = api.connect();
+      t.mock.timers.tick(10000);
+      await assert.rejects(connecting, CaptivateTimeoutError);
+      assert.equal(FakeWebSocket.last.readyState, FakeWebSocket.CLOSED);
+    } finally {
+      api.dispose();
+    }
+  });
+
+  test('connect() and reconnect() reject after dispose()', async () => {
+    const api = new CaptivateChatAPI('disposed-key', TEST_OPTIONS);
+    api.dispose();
+    await assert.rejects(api.connect(), CaptivateConnectionError);
+    await assert.rejects(api.reconnect(), CaptivateConnectionError);
+  });
+
+  test('an unexpected close reconnects and re-binds conversations to the new socket', async () => {
+    const api = await createTestApi();
+    const conversation = api.getOrCreateConversation('conv-1');
+    const states: ConnectionState[] = [];
+    api.onConnectionStateChange((state) => states.push(state));
+
+    FakeWebSocket.last.drop(1006);
+    await waitFor(() => api.getConnectionState() === 'connected');
+
+    assert.equal(FakeWebSocket.instances.length, 2);
+    assert.deepEqual(states, ['reconnecting', 'connected']);
+    await conversation.sendAction('ping');
+    assert.equal(fakeFetch.events('action')[0].body.event.socket_id, 'socket-2');
+  });
+
+  test('a normal close does not reconnect', async () => {
+    const api = await createTestApi();
+    FakeWebSocket.last.drop(1000);
+    await settle();
+
+    assert.equal(api.getConnectionState(), 'disconnected');
+    assert.equal(FakeWebSocket.instances.length, 1);
+  });
+
+  test('concurrent reconnect() calls share one reconnection cycle', async () => {
+    const api = await createTestApi();
+    await Promise.all([api.reconnect(), api.reconnect(), api.reconnect()]);
+
+    assert.equal(FakeWebSocket.instances.length, 2);
+    assert.equal(api.isSocketActive(), true);
+  });
+
+  test('reconnect() gives up after maxAttempts', async () => {
+    const api = await createTestApi();
+    FakeWebSocket.behavior = 'refuse';
+
+    await assert.rejects(api.reconnect(), (error: Error) => error instanceof CaptivateConnectionError && /Max reconnection attempts \(3\)/.test(error.message));
+    assert.equal(FakeWebSocket.instances.length, 4);
+    assert.equal(api.getConnectionState(), 'disconnected');
+  });
+
+  test('dispose() cancels a reconnection waiting for its backoff delay', async () => {
+    const api = await createTestApi({ reconnect: { initialDelay: 60000, maxAttempts: 3 } });
+    FakeWebSocket.behavior = 'refuse';
+
+    const reconnecting = api.reconnect();
+    await settle();
+    api.dispose();
+
+    await assert.rejects(reconnecting, /Reconnection cancelled/);
+  });
+
+  test('onConnectionStateChange listeners can be removed', async () => {
+    const api = await createTestApi();
+    const states: ConnectionState[] = [];
+    const unsubscribe = api.onConnectionStateChange((state) => states.push(state));
+    unsubscribe();
+
+    await api.reconnect();
+    assert.deepEqual(states, []);
+  });
+
+  test('the heartbeat measures latency from the frame parsed once and replaces an unresponsive socket', async (t) => {
+    const api = await createTestApi({ heartbeat: { interval: 5, timeout: 20 } });
+    const latencies: number[] = [];
+    api.onLatency((latency) => latencies.push(latency));
+    const socket = FakeWebSocket.last;
+
+    await waitFor(() => socket.sent.length > 0);
+    assert.deepEqual(JSON.parse(socket.sent[0]), { action: 'ping' });
+    const parse = t.mock.method(JSON, 'parse');
+    socket.receive('pong');
+    assert.equal(parse.mock.callCount(), 1);
+    parse.mock.restore();
+    assert.equal(latencies.length, 1);
+    assert.equal(api.getLatency(), latencies[0]);
+
+    // No answer to the next ping: the socket is closed and replaced
+    await waitFor(() => FakeWebSocket.instances.length === 2 && api.getConnectionState() === 'connected');
+    assert.equal(socket.closedWith?.code, 4000);
+    assert.equal(api.getLatency(), null);
+  });
+
+  test('the heartbeat is disabled by default', async () => {
+    const api = await createTestApi({ heartbeat: undefined });
+    const socket = FakeWebSocket.last;
+
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(socket.sent, []);
+    assert.equal(api.getConnectionState(), 'connected');
+  });
+
+  test('frames other than the pong keep the socket alive without measuring latency', async () => {
+    const api = await createTestApi({ heartbeat: { interval: 5, timeout: 50 } });
+    const latencies: number[] = [];
+    api.onLatency((latency) => latencies.push(latency));
+    const socket = FakeWebSocket.last;
+
+    await waitFor(() => socket.sent.length > 0);
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'tags_changed' });
+    socket.receiveRaw('pong');
+
+    assert.deepEqual(latencies, []);
+    assert.equal(api.getLatency(), null);
+    assert.equal(socket.closedWith, null);
+  });
+
+  test('onProtocolError reports invalid frames', async () => {
+    const api = await createTestApi();
+    const errors: CaptivateProtocolError[] = [];
+    api.onProtocolError((error) => errors.push(error));
+
+    FakeWebSocket.last.receiveRaw('not json');
+    FakeWebSocket.last.receive('bot_message', { conversation_id: 'conv-1' });
+
+    assert.equal(errors.length, 2);
+    assert.deepEqual(errors[0].issues, ['frame is not valid JSON']);
+    assert.equal(errors[1].eventType, 'bot_message');
+    assert.deepEqual(errors[1].issues, ['content is missing']);
+  });
+
+  test('dispose() closes the socket, drops conversations and leaves the registry', async () => {
+    const api = await createTestApi({}, 'dispose-key');
+    const socket = FakeWebSocket.last;
+    const conversation = api.getOrCreateConversation('conv-1');
+    const received: unknown[] = [];
+    conversation.onMessage((content) => received.push(content));
+
+    api.dispose();
+
+    assert.deepEqual(socket.closedWith, { code: 1000, reason: 'Instance disposed' });
+    assert.equal(api.getConnectionState(), 'disconnected');
+    assert.equal(CaptivateChatAPI.hasInstance('dispose-key', TEST_OPTIONS), false);
+    assert.notEqual(api.getOrCreateConversation('conv-1'), conversation);
+    socket.receive('bot_message', { conversation_id: 'conv-1', content: { type: 'text', text: 'late' } });
+    assert.deepEqual(received, []);
+  });
+});
+
+describe('withSocketGuard', () => {
+  test('reconnects before running a method when the socket is no longer open', async () => {
+    const api = await createTestApi();
+    // A socket that died without a close event
+    FakeWebSocket.last.readyState = FakeWebSocket.CLOSED;
+
+    await api.deleteUserConversations('user-1');
+
+    assert.equal(FakeWebSocket.instances.length, 2);
+    assert.equal(fakeFetch.events('delete_user_conversations')[0].body.event.socket_id, 'socket-2');
+  });
+
+  test('rejects with CaptivateConnectionError and skips the call when reconnecting fails', async () => {
+    const api = await createTestApi();
+    FakeWebSocket.last.readyState = FakeWebSocket.CLOSED;
+    FakeWebSocket.behavior = 'refuse';
+
+    await assert.rejects(api.deleteUserConversations('user-1'), (error: Error) =>
+      error instanceof CaptivateConnectionError && /Cannot execute deleteUserConversations/.test(error.message));
+    assert.equal(fakeFetch.events().length, 0);
+  });
+
+  test('leaves listener registration synchronous while disconnected', async () => {
+    const api = await createTestApi();
+    const conversation = api.getOrCreateConversation('conv-1');
+    FakeWebSocket.last.readyState = FakeWebSocket.CLOSED;
+
+    assert.equal(typeof api.onConnectionStateChange(() => {}), 'function');
+    assert.equal(typeof conversation.onMessage(() => {}), 'function');
+    assert.equal(conversation.getConversationId(), 'conv-1');
+    assert.equal(FakeWebSocket.instances.length, 1);
+  });
+});
+
+describe('CaptivateChatAPI.createConversation', () => {
+  test('bot-first conversations send conversation_start and an empty opener', async () => {
+    const api = await createTestApi();
+    answerConversationStart('conv-1');
+
+    const conversation = await api.createConversation('user-1', { name: 'Ada' }, { plan: 'pro' }, 'bot-first', { crm: 42 });
+
+    assert.equal(conversation.getConversationId(), 'conv-1');
+    assert.deepEqual(fakeFetch.events('conversation_start')[0].payload, {
+      userId: 'user-1',
+      userBasicInfo: { name: 'Ada' },
+      metadata: { plan: 'pro', private: { crm: 42 } }
+    });
+    const [opener] = fakeFetch.events('user_message');
+    assert.equal(opener.payload.conversation_id, 'conv-1');
+    assert.deepEqual(opener.payload.content, { type: 'text', text: '' });
+    assert.equal(opener.headers['x-api-key'], FakeWebSocket.last.url.split('apiKey=')[1]);
+  });
+
+  test('user-first conversations send no opener', async () => {
+    const api = await createTestApi();
+    answerConversationStart('conv-2');
+
+    const conversation = await api.createConversation('user-1', {}, {}, 'user-first');
+
+    assert.equal(conversation.getConversationId(), 'conv-2');
+    assert.equal(fakeFetch.events('user_message').length, 0);
+    assert.equal(await api.getConversation('conv-2'), conversation);
+  });
+
+  test('rejects with CaptivateServerError when no conversation_id is received', async () => {
+    const api = await createTestApi();
+    fakeFetch.onEvent('conversation_start', () => {
+      FakeWebSocket.last.receive('conversation_start_success', {});
+      return { status: 'success' };
+    });
+
+    await assert.rejects(api.createConversation('user-1'), CaptivateServerError);
+  });
+
+  test('rejects with CaptivateTimeoutError when conversation_start_success never arrives', async (t) => {
+    const api = await createTestApi();
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+
+    const creating = api.createConversation('user-1');
+    await settle();
+    t.mock.timers.tick(10000);
+
+    await assert.rejects(creating, CaptivateTimeoutError);
+  });
+
+  test('rejects with the HTTP error when conversation_start fails', async (t) => {
+    const api = await createTestApi();
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    fakeFetch.onEvent('conversation_start', reply(400, { error: 'Bad request' }));
+
+    await assert.rejects(api.createConversation('user-1'), (error: Error) =>
+      error instanceof CaptivateHttpError && error.status === 400 && error.eventType === 'conversation_start');
+  });
+});
+
+describe('CaptivateChatAPI conversations', () => {
+  test('getOrCreateConversation returns one tracked conversation per ID', async () => {
+    const api = await createTestApi();
+    const conversation = api.getOrCreateConversation('conv-1', { topic: 'billing' }, 'other-key');
+
+    assert.equal(api.getOrCreateConversation('conv-1'), conversation);
+    assert.equal(conversation.apiKey, 'other-key');
+    assert.deepEqual(conversation.serialize().metadata, { topic: 'billing' });
+  });
+
+  test('getConversation creates a conversation for an unknown ID', async () => {
+    const api = await createTestApi();
+    const conversation = await api.getConversation('conv-9');
+
+    assert.ok(conversation);
+    assert.equal(conversation.getConversationId(), 'conv-9');
+    assert.equal(await api.getConversation('conv-9'), conversation);
+  });
+
+  test('getConversation throws when the socket was never opened', () => {
+    const api = new CaptivateChatAPI('unconnected-key', TEST_OPTIONS);
+    try {
+      assert.throws(() => api.getConversation('conv-1'), CaptivateConnectionError);
+    } finally {
+      api.dispose();
+    }
+  });
+
+  test('deleteUserConversations validates the user ID and sends the delete mode', async () => {
+    const api = await createTestApi();
+
+    await assert.rejects(api.deleteUserConversations(''), CaptivateValidationError);
+    await api.deleteUserConversations('user-1');
+    await api.deleteUserConversations('user-1', { softDelete: false });
+
+    assert.deepEqual(fakeFetch.events('delete_user_conversations').map((request) => request.payload), [
+      { userId: 'user-1', softdelete: true },
+      { userId: 'user-1', softdelete: false }
+    ]);
+  });
+});
+
+describe('CaptivateChatAPI.getUserConversations', () => {
+  const conversations = [
+    { conversation_id: 'conv-1', metadata: { topic: 'billing' } },
+    { conversation_id: 'conv-2', metadata: {}, apiKey: 'second-key' }
+  ];
+
+  test('uses get_user_conversations (v1) for a user ID', async () => {
+    const api = await createTestApi();
+    fakeFetch.onEvent('get_user_conversations', { conversations });
+
+    const result = await api.getUserConversations('user-1');
+
+    assert.deepEqual(fakeFetch.events().map((request) => request.eventType), ['get_user_conversations']);
+    assert.deepEqual(fakeFetch.events()[0].payload, { userId: 'user-1' });
+    assert.deepEqual(result.conversations.map((conversation) => conversation.getConversationId()), ['conv-1', 'conv-2']);
+    assert.equal(result.conversations[0], api.getOrCreateConversation('conv-1'));
+    assert.equal(result.conversations[1].apiKey, 'second-key');
+    assert.equal(result.pagination, undefined);
+  });
+
+  test('uses v1 for an options object with only a user ID', async () => {
+    const api = await createTestApi();
+    await api.getUserConversations({ userId: 'user-1' });
+
+    assert.equal(fakeFetch.events()[0].eventType, 'get_user_conversations');
+  });
+
+  for (const [option, value] of [
+    ['filter', { channel: 'web' }],
+    ['search', { text: 'refund' }],
+    ['pagination', { page: 2, limit: 10 }],
+    ['apiKeys', ['key-a', 'key-b']]
+  ] as const) {
+    test(`uses get_user_conversations_v2 when ${option} is given`, async () => {
+      const api = await createTestApi();
+      await api.getUserConversations({ userId: 'user-1', [option]: value });
+
+      const [request] = fakeFetch.events();
+      assert.equal(request.eventType, 'get_user_conversations_v2');
+      assert.deepEqual(request.payload, { userId: 'user-1', [option]: value });
+    });
+  }
+
+  test('sends status as filter.status and reads event-wrapped responses', async () => {
+    const api = await createTestApi();
+    const pagination = { page: 1, limit: 1, total: 2, hasNextPage: true };
+    fakeFetch.onEvent('get_user_conversations_v2', { event: { event_payload: { conversations: conversations.slice(0, 1), pagination } } });
+
+    const result = await api.getUserConversations({ userId: 'user-1', filter: { channel: 'web' }, status: ['open', 'closed'] });
+
+    assert.deepEqual(fakeFetch.events()[0].payload.filter, { channel: 'web', status: ['open', 'closed'] });
+    assert.equal(result.conversations.length, 1);
+    assert.deepEqual(result.pagination, pagination);
+  });
+
+  test('rejects with the HTTP error of a failed request', async () => {
+    const api = await createTestApi();
+    fakeFetch.onEvent('get_user_conversations', reply(503, { error: 'Unavailable' }));
+
+    await assert.rejects(api.getUserConversations('user-1'), CaptivateServerError);
+  });
+
+  test('retries only 429, 502, 503 and 504 responses', async () => {
+    const api = await createTestApi({ http: { maxRetries: 1, retryBaseDelay: 1 } });
+    fakeFetch.onEvent('get_user_conversations', reply(500, { error: 'Boom' }));
+
+    await assert.rejects(api.getUserConversations('user-1'), CaptivateServerError);
+    assert.equal(fakeFetch.events('get_user_conversations').length, 1);
+
+    fakeFetch.onEvent('get_user_conversations', { conversations: [] });
+    fakeFetch.onEvent('get_user_conversations', reply(503, { error: 'Unavailable' }), 1);
+    await api.getUserConversations('user-1');
+    assert.equal(fakeFetch.events('get_user_conversations').length, 3);
+  });
+
+  test('times out a response whose body stalls', async () => {
+    const api = await createTestApi({ http: { timeout: 20 } });
+    fakeFetch.onEvent('get_user_conversations', () => new Response(new ReadableStream(), { headers: { 'content-type': 'application/json' } }));
+
+    await assert.rejects(api.getUserConversations('user-1'), CaptivateTimeoutError);
+  });
+
+  test('rejects invalid responses in strict validation mode', async () => {
+    const api = await createTestApi({ validation: { strict: true } });
+    fakeFetch.onEvent('get_user_conversations', { conversations: [{ id: 'conv-1' }] });
+
+    await assert.rejects(api.getUserConversations('user-1'), CaptivateProtocolError);
+  });
+
+  test('serves cached lists and revalidates them in the background', async () => {
+    const api = await createTestApi({ cache: { storage: new MemoryStorageAdapter() } });
+    fakeFetch.onEvent('get_user_conversations', { conversations: conversations.slice(0, 1) });
+    const updates: string[][] = [];
+    const unsubscribe = api.onUserConversationsUpdate((result) => {
+      updates.push(result.conversations.map((conversation) => conversation.getConversationId()));
+    });
+
+    const first = await api.getUserConversations('user-1');
+    fakeFetch.onEvent('get_user_conversations', { conversations });
+    const second = await api.getUserConversations('user-1');
+
+    assert.equal(first.conversations.length, 1);
+    assert.equal(second.conversations.length, 1);
+    await waitFor(() => updates.length === 1);
+    assert.deepEqual(updates[0], ['conv-1', 'conv-2']);
+
+    unsubscribe();
+    await api.getUserConversations('user-1');
+    await waitFor(() => fakeFetch.events().length === 3);
+    await settle();
+    assert.equal(updates.length, 1);
+  });
+
+  test('does not revalidate lists younger than the stale time', async () => {
+    const api = await createTestApi({ cache: { storage: new MemoryStorageAdapter(), staleTime: 60000 } });
+    await api.getUserConversations('user-1');
+    await api.getUserConversations('user-1');
+    await settle();
+
+    assert.equal(fakeFetch.events().length, 1);
+  });
+
+  test('stores lists under a hash of the API key and persists transcripts only when asked', async () => {
+    const keys: string[] = [];
+    const recordingStorage = (): StorageAdapter => {
+      const storage = new MemoryStorageAdapter();
+      return {
+        getItem: (key) => storage.getItem(key),
+        setItem: (key, value) => {
+          keys.push(key);
+          storage.setItem(key, value);
+        },
+        removeItem: (key) => storage.removeItem(key)
+      };
+    };
+    fakeFetch.onPath('/api/transcript', { transcript: [] });
+
+    const api = await createTestApi({ cache: { storage: recordingStorage() } }, 'cache-key');
+    await api.getUserConversations('user-1');
+    await api.getOrCreateConversation('conv-1').getTranscript();
+
+    assert.equal(keys.length, 1);
+    assert.ok(keys[0].startsWith(`captivate-cache:conversations:${hashStorageKey('cache-key')}:`));
+
+    const persisting = await createTestApi({ cache: { storage: recordingStorage(), persistTranscripts: true } });
+    await persisting.getOrCreateConversation('conv-2').getTranscript();
+
+    assert.deepEqual(keys.slice(1), ['captivate-cache:transcript:conv-2']);
+  });
+});
+
+describe('CaptivateChatAPI sessions', () => {
+  test('resumeSession starts an empty session and saves created conversations', async () => {
+    const store = new MemoryStorageAdapter();
+    const api = await createTestApi({}, 'session-key');
+    answerConversationStart('conv-1');
+
+    assert.deepEqual(await api.resumeSession(store), { userId: null, conversations: [] });
+    await api.createConversation('user-1', {}, { plan: 'pro' }, 'user-first');
+    await api.saveSession();
+
+    const saved = JSON.parse(store.getItem(`captivate-session:${hashStorageKey('session-key')}`)!);
+    assert.equal(saved.userId, 'user-1');
+    assert.deepEqual(saved.conversations.map((conversation: any) => conversation.conversationId), ['conv-1']);
+  });
+
+  test('resumeSession restores conversations, runs setup and catches up on missed messages', async () => {
+    const store = new MemoryStorageAdapter();
+    store.setItem('session', JSON.stringify({
+      userId: 'user-1',
+      conversations: [{
+        conversationId: 'conv-1',
+        metadata: { plan: 'pro' },
+        status: 'closed',
+        handoffState: 'none',
+        lastSeenMessageId: 'm1',
+        lastSeenTimestamp: 1000
+      }],
+      savedAt: 1000
+    }));
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [
+        { message_id: 'm1', from: 'bot', content: { type: 'text', text: 'seen' }, timestamp: 1000 },
+        { message_id: 'm2', from: 'bot', content: { type: 'text', text: 'missed' }, timestamp: 2000 }
+      ]
+    });
+    const api = await createTestApi();
+    const replayed: unknown[] = [];
+
+    const session = await api.resumeSession(store, {
+      key: 'session',
+      setup: (conversation) => conversation.onMessage((content, _type, details) => replayed.push({ content, replayed: details?.replayed }))
+    });
+
+    assert.equal(session.userId, 'user-1');
+    assert.equal(session.conversations[0].getStatus(), 'closed');
+    assert.deepEqual(replayed, [{ content: { type: 'text', text: 'missed' }, replayed: true }]);
+    assert.equal(JSON.parse(store.getItem('session')!).conversations[0].lastSeenMessageId, 'm2');
+  });
+
+  test('clearSession removes the stored session', async () => {
+    const store = new MemoryStorageAdapter();
+    const api = await createTestApi();
+    await api.resumeSession(store, { key: 'session' });
+    assert.notEqual(store.getItem('session'), null);
+
+    await api.clearSession();
+    assert.equal(store.getItem('session'), null);
+  });
+
+  test('saveSession and clearSession work while disconnected without reconnecting', async () => {
+    const store = new MemoryStorageAdapter();
+    const api = await createTestApi();
+    await api.resumeSession(store, { key: 'session' });
+    FakeWebSocket.last.readyState = FakeWebSocket.CLOSED;
+    FakeWebSocket.behavior = 'refuse';
+
+    await api.saveSession();
+    await api.clearSession();
+
+    assert.equal(store.getItem('session'), null);
+    assert.equal(FakeWebSocket.instances.length, 1);
+  });
+
+  test('saveSession does nothing without a session store', async () => {
+    const api = await createTestApi();
+    await api.saveSession();
+  });
+});
@@ -0,0 +1,226 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestApi, fakeFetch, reply, resetTestEnvironment } from './helpers';
+import {
+  CaptivateChatFileManager,
+  CaptivateFileConversionError,
+  CaptivateServerError,
+  CaptivateValidationError
+} from '../src';
+
+const FILE_SERVICE = 'http://localhost:4000';
+
+function pdf(name: string = 'report.pdf'): File {
+  return new File(['%PDF-1.4'], name, { type: 'application/pdf' });
+}
+
+function answerFileToText(): void {
+  let count = 0;
+  fakeFetch.onPath('/api/file-to-text', (request) => {
+    count++;
+    const file = (request.body as FormData).get('file') as File;
+    return {
+      success: true,
+      text: `Text of ${file.name}`,
+      fileKey: `key-${count}`,
+      presignedUrl: `https://files/${count}`,
+      expiresIn: 7200,
+      fileSize: file.size,
+      processingTime: 5
+    };
+  });
+}
+
+afterEach(() => {
+  resetTestEnvironment();
+});
+
+describe('CaptivateChatFileManager.create', () => {
+  test('uploads the file and stores its text and storage information', async () => {
+    answerFileToText();
+
+    const files = await CaptivateChatFileManager.create({ file: pdf(), apiKey: 'key', conversationId: 'conv-1', fileServiceBaseUrl: FILE_SERVICE });
+
+    const [request] = fakeFetch.calls('/api/file-to-text');
+    assert.equal(request.url, `${FILE_SERVICE}/api/file-to-text`);
+    assert.equal(request.method, 'POST');
+    const form = request.body as FormData;
+    assert.equal((form.get('file') as File).name, 'report.pdf');
+    assert.equal(form.get('includeMetadata'), 'true');
+    assert.equal(form.get('storage'), 'true');
+    assert.equal(form.get('path'), 'key/conv-1');
+
+    assert.equal(files.getFilename(), 'report.pdf');
+    assert.equal(files.getFileType(), 'application/pdf');
+    assert.equal(files.getTextContent(), 'Text of report.pdf');
+    assert.deepEqual(files.getFirstFile()!.storage, { fileKey: 'key-1', presignedUrl: 'https://files/1', expiresIn: 7200, fileSize: 8, processingTime: 5 });
+    assert.deepEqual(files.getFirstFile()!.textContent.metadata, { source: 'file_attachment', originalFileName: 'report.pdf', storageType: 'direct' });
+  });
+
+  test('uses the given file name and type and references the URL without storage', async () => {
+    answerFileToText();
+
+    const files = await CaptivateChatFileManager.create({
+      file: new Blob(['data']),
+      fileName: 'notes.txt',
+      fileType: 'text/plain',
+      storage: false,
+      url: 'https://example.com/notes.txt',
+      fileServiceBaseUrl: FILE_SERVICE
+    });
+
+    const form = fakeFetch.calls('/api/file-to-text')[0].body as FormData;
+    assert.equal(form.get('storage'), 'false');
+    assert.equal(form.get('path'), null);
+    assert.equal(files.getFilename(), 'notes.txt');
+    assert.equal(files.getFileType(), 'text/plain');
+    assert.equal(files.getFirstFile()!.url, 'https://example.com/notes.txt');
+    assert.equal(files.getFirstFile()!.storage, undefined);
+  });
+
+  test('requires a URL when storage is false', async () => {
+    await assert.rejects(CaptivateChatFileManager.create({ file: pdf(), storage: false }), CaptivateValidationError);
+    assert.equal(fakeFetch.requests.length, 0);
+  });
+
+  test('rejects with CaptivateFileConversionError when the conversion fails', async () => {
+    fakeFetch.onPath('/api/file-to-text', { success: false, error: 'Unsupported file' });
+    await assert.rejects(
+      CaptivateChatFileManager.create({ file: pdf(), fileServiceBaseUrl: FILE_SERVICE }),
+      (error: Error) => error instanceof CaptivateFileConversionError && error.message === 'File conversion failed: Unsupported file'
+    );
+
+    fakeFetch.onPath('/api/file-to-text', reply(400, { error: 'Too large' }));
+    await assert.rejects(
+      CaptivateChatFileManager.create({ file: pdf(), fileServiceBaseUrl: FILE_SERVICE }),
+      (error: any) => error instanceof CaptivateFileConversionError && error.status === 400 && /Too large/.test(error.message)
+    );
+  });
+
+  test('createFile returns the file object', async () => {
+    answerFileToText();
+
+    const file = await CaptivateChatFileManager.createFile({ file: pdf('a.pdf'), fileServiceBaseUrl: FILE_SERVICE });
+
+    assert.equal(file.filename, 'a.pdf');
+    assert.equal(file.textContent.text, 'Text of a.pdf');
+  });
+});
+
+describe('CaptivateChatFileManager.createMultiple', () => {
+  test('combines all files into one instance', async () => {
+    answerFileToText();
+
+    const files = await CaptivateChatFileManager.createMultiple({ files: [pdf('a.pdf'), pdf('b.pdf')], fileServiceBaseUrl: FILE_SERVICE });
+
+    assert.equal(fakeFetch.calls('/api/file-to-text').length, 2);
+    assert.equal(files.length, 2);
+    assert.deepEqual(files.toFilesArray().map((file) => file.filename), ['a.pdf', 'b.pdf']);
+    assert.equal(files.toFilesArray(), files.files);
+    assert.equal(files.files[1].textContent.text, 'Text of b.pdf');
+  });
+
+  test('requires one URL per file when storage is false', async () => {
+    answerFileToText();
+    const files = [pdf('a.pdf'), pdf('b.pdf')];
+
+    await assert.rejects(
+      CaptivateChatFileManager.createMultiple({ files, storage: false }),
+      { name: 'CaptivateValidationError', message: 'URLs array is required when storage is false and must match the number of files' }
+    );
+    await assert.rejects(
+      CaptivateChatFileManager.createMultiple({ files, storage: false, urls: ['https://example.com/a.pdf'] }),
+      CaptivateValidationError
+    );
+    assert.equal(fakeFetch.requests.length, 0);
+
+    const combined = await CaptivateChatFileManager.createMultiple({
+      files,
+      storage: false,
+      urls: ['https://example.com/a.pdf', 'https://example.com/b.pdf'],
+      fileServiceBaseUrl: FILE_SERVICE
+    });
+    assert.deepEqual(combined.files.map((file) => file.url), ['https://example.com/a.pdf', 'https://example.com/b.pdf']);
+  });
+});
+
+describe('CaptivateChatFileManager secure URLs', () => {
+  test('getSecureFileUrl requests a presigned URL', async () => {
+    fakeFetch.onPath('/api/presigned-url', { success: true, presignedUrl: 'https://files/secure' });
+
+    assert.equal(await CaptivateChatFileManager.getSecureFileUrl('key-1', 600, FILE_SERVICE), 'https://files/secure');
+    assert.deepEqual(fakeFetch.calls('/api/presigned-url')[0].body, { fileKey: 'key-1', expiresIn: 600 });
+  });
+
+  test('getSecureFileUrl rejects unsuccessful and failed requests', async () => {
+    fakeFetch.onPath('/api/presigned-url', { success: false, error: 'Unknown key' });
+    await assert.rejects(
+      CaptivateChatFileManager.getSecureFileUrl('key-1', 7200, FILE_SERVICE),
+      (error: Error) => error instanceof CaptivateServerError && error.message === 'Secure URL generation failed: Unknown key'
+    );
+
+    fakeFetch.onPath('/api/presigned-url', reply(404, { error: 'Missing' }));
+    await assert.rejects(
+      CaptivateChatFileManager.getSecureFileUrl('key-1', 7200, FILE_SERVICE),
+      (error: any) => error.status === 404 && /^Secure URL generation failed: 404/.test(error.message)
+    );
+  });
+
+  test('refreshSecureUrl refreshes the first stored file', async () => {
+    answerFileToText();
+    fakeFetch.onPath('/api/presigned-url', { success: true, presignedUrl: 'https://files/refreshed' });
+    const stored = await CaptivateChatFileManager.create({ file: pdf(), fileServiceBaseUrl: FILE_SERVICE });
+    const referenced = await CaptivateChatFileManager.create({ file: pdf(), storage: false, url: 'https://example.com/a.pdf', fileServiceBaseUrl: FILE_SERVICE });
+
+    assert.equal(await stored.refreshSecureUrl(60, FILE_SERVICE), 'https://files/refreshed');
+    assert.equal(await referenced.refreshSecureUrl(60, FILE_SERVICE), undefined);
+    assert.deepEqual(fakeFetch.calls('/api/presigned-url').map((request) => request.body), [{ fileKey: 'key-1', expiresIn: 60 }]);
+  });
+});
+
+describe('CaptivateChatFileManager.setTimeToLive', () => {
+  test('validates its arguments', async () => {
+    await assert.rejects(CaptivateChatFileManager.setTimeToLive('', 'conv-1', 1), { message: 'API key is required' });
+    await assert.rejects(CaptivateChatFileManager.setTimeToLive('key', '', 1), { message: 'Conversation ID is required' });
+    for (const days of [0, -1, 1.5, '2' as any]) {
+      await assert.rejects(CaptivateChatFileManager.setTimeToLive('key', 'conv-1', days), CaptivateValidationError);
+    }
+    assert.equal(fakeFetch.requests.length, 0);
+  });
+
+  test('sets the TTL of the conversation path', async () => {
+    fakeFetch.onPath('/api/path-ttl', { success: true });
+
+    await CaptivateChatFileManager.setTimeToLive('key', 'conv-1', 14, FILE_SERVICE);
+
+    const [request] = fakeFetch.calls('/api/path-ttl');
+    assert.equal(request.headers['x-api-key'], 'key');
+    assert.deepEqual(request.body, { path: 'key/conv-1', days: 14 });
+  });
+
+  test('rejects unsuccessful responses', async () => {
+    fakeFetch.onPath('/api/path-ttl', { success: false, error: 'Path not found' });
+
+    await assert.rejects(
+      CaptivateChatFileManager.setTimeToLive('key', 'conv-1', 14, FILE_SERVICE),
+      (error: Error) => error instanceof CaptivateServerError && error.message === 'TTL update failed: Path not found'
+    );
+  });
+});
+
+describe('Conversation.fileManager', () => {
+  test('uploads files to the conversation path of the instance file service', async () => {
+    const api = await createTestApi();
+    const conversation = api.getOrCreateConversation('conv-1');
+    answerFileToText();
+
+    await conversation.fileManager.create({ file: pdf() });
+    await conversation.fileManager.createMultiple({ files: [pdf('b.pdf')] });
+
+    const paths = fakeFetch.calls('/api/file-to-text').map((request) => [request.url, (request.body as FormData).get('path')]);
+    assert.deepEqual(paths, [
+      [`${FILE_SERVICE}/api/file-to-text`, `${conversation.apiKey}/conv-1`],
+      [`${FILE_SERVICE}/api/file-to-text`, `${conversation.apiKey}/conv-1`]
+    ]);
+  });
+});
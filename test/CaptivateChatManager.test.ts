@@ -0,0 +1,116 @@
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWebSocket, TEST_OPTIONS, fakeFetch, resetTestEnvironment } from './helpers';
+import { CaptivateChatAPI, CaptivateChatManager, CaptivateConnectionError, CaptivateValidationError } from '../src';
+
+let managers: CaptivateChatManager[] = [];
+let keyCount = 0;
+
+function uniqueKeys(count: number): string[] {
+  return Array.from({ length: count }, () => `manager-key-${++keyCount}`);
+}
+
+async function createManager(apiKeys: string[]): Promise<CaptivateChatManager> {
+  const manager = await CaptivateChatManager.create(apiKeys, TEST_OPTIONS);
+  managers.push(manager);
+  return manager;
+}
+
+afterEach(() => {
+  managers.splice(0).forEach((manager) => manager.disposeAll());
+  resetTestEnvironment();
+});
+
+describe('CaptivateChatManager', () => {
+  test('create connects one deduplicated instance per API key', async () => {
+    const [first, second] = uniqueKeys(2);
+
+    const manager = await createManager([first, second, first]);
+
+    assert.equal(FakeWebSocket.instances.length, 2);
+    assert.equal(manager.getApiInstance(first)!.isSocketActive(), true);
+    assert.equal(manager.getApiInstance(second)!.isSocketActive(), true);
+    assert.equal(manager.getApiInstance('unknown'), undefined);
+  });
+
+  test('the constructor reuses registered instances and connectAll connects them', async () => {
+    const [first, second] = uniqueKeys(2);
+    const existing = await CaptivateChatAPI.create(first, TEST_OPTIONS);
+
+    const manager = new CaptivateChatManager([first, second], TEST_OPTIONS);
+    managers.push(manager);
+    assert.equal(manager.getApiInstance(first)!.getSocket(), existing.getSocket());
+    assert.equal(manager.getApiInstance(second)!.isSocketActive(), false);
+
+    await manager.connectAll();
+
+    assert.equal(manager.getApiInstance(second)!.isSocketActive(), true);
+  });
+
+  test('getUserConversations merges all keys and binds each conversation to its own instance', async () => {
+    const [first, second] = uniqueKeys(2);
+    const manager = await createManager([first, second]);
+    fakeFetch.onEvent('get_user_conversations_v2', {
+      conversations: [
+        { conversation_id: 'conv-1', apiKey: first, metadata: { topic: 'a' } },
+        { conversation_id: 'conv-2', apiKey: second, metadata: { topic: 'b' } }
+      ],
+      pagination: { page: 1 }
+    });
+
+    const result = await manager.getUserConversations({ userId: 'user-1', pagination: { page: 1 } });
+
+    const [request] = fakeFetch.events('get_user_conversations_v2');
+    assert.deepEqual(request.payload, { userId: 'user-1', pagination: { page: 1 }, apiKeys: [first, second] });
+    assert.equal(request.body.event.socket_id, 'socket-1');
+    assert.deepEqual(result.pagination, { page: 1 });
+    assert.equal(result.conversations[0], manager.getApiInstance(first)!.getOrCreateConversation('conv-1'));
+    assert.equal(result.conversations[1], manager.getApiInstance(second)!.getOrCreateConversation('conv-2'));
+    assert.equal(result.conversations[1].apiKey, second);
+    assert.deepEqual(result.conversations[1].serialize().metadata, { topic: 'b' });
+    // The first instance only made the request and does not track the second key's conversation
+    assert.deepEqual(manager.getApiInstance(first)!.getOrCreateConversation('conv-2').serialize().metadata, {});
+  });
+
+  test('getUserConversations uses the first of the given API keys', async () => {
+    const [first, second] = uniqueKeys(2);
+    const manager = await createManager([first, second]);
+    fakeFetch.onEvent('get_user_conversations_v2', { conversations: [] });
+
+    await manager.getUserConversations({ userId: 'user-1', apiKeys: [second] });
+
+    const [request] = fakeFetch.events('get_user_conversations_v2');
+    assert.equal(request.body.event.socket_id, 'socket-2');
+    assert.deepEqual(request.payload.apiKeys, [second]);
+  });
+
+  test('getUserConversations rejects conversations of unknown or disconnected API keys', async () => {
+    const [first, second] = uniqueKeys(2);
+    const manager = await createManager([first, second]);
+    fakeFetch.onEvent('get_user_conversations_v2', { conversations: [{ conversation_id: 'conv-1', apiKey: 'other-key' }] });
+
+    await assert.rejects(manager.getUserConversations({ userId: 'user-1' }), CaptivateValidationError);
+
+    fakeFetch.onEvent('get_user_conversations_v2', { conversations: [{ conversation_id: 'conv-2', apiKey: second }] });
+    manager.getApiInstance(second)!.dispose();
+    await assert.rejects(manager.getUserConversations({ userId: 'user-1' }), CaptivateConnectionError);
+  });
+
+  test('dispose and disposeAll close the instances and remove them', async () => {
+    const [first, second, third] = uniqueKeys(3);
+    const manager = await createManager([first, second, third]);
+    const [firstSocket, secondSocket, thirdSocket] = FakeWebSocket.instances;
+
+    manager.dispose(first);
+    manager.dispose('unknown');
+    assert.equal(manager.getApiInstance(first), undefined);
+    assert.equal(CaptivateChatAPI.hasInstance(first, TEST_OPTIONS), false);
+    assert.equal(firstSocket.readyState, FakeWebSocket.CLOSED);
+    assert.equal(secondSocket.readyState, FakeWebSocket.OPEN);
+
+    manager.disposeAll();
+    assert.equal(manager.getApiInstance(second), undefined);
+    assert.equal(secondSocket.readyState, FakeWebSocket.CLOSED);
+    assert.equal(thirdSocket.readyState, FakeWebSocket.CLOSED);
+  });
+});
@@ -0,0 +1,786 @@
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FakeWebSocket, createTestApi, fakeFetch, hang, reply, resetTestEnvironment, settle, waitFor } from './helpers';
+import {
+  CaptivateAuthError,
+  CaptivateChatAPI,
+  CaptivateChatOptions,
+  CaptivateServerError,
+  CaptivateTimeoutError,
+  CaptivateValidationError,
+  MemoryStorageAdapter
+} from '../src';
+import { Conversation } from '../src/api/Conversation';
+
+let api: CaptivateChatAPI;
+let conversation: Conversation;
+let socket: FakeWebSocket;
+
+async function setUp(options: CaptivateChatOptions = {}): Promise<void> {
+  api = await createTestApi(options);
+  conversation = api.getOrCreateConversation('conv-1');
+  socket = FakeWebSocket.last;
+}
+
+function botMessage(text: string, messageId?: string, eventType: string = 'bot_message'): void {
+  socket.receive(eventType, { conversation_id: 'conv-1', message_id: messageId, content: { type: 'text', text } });
+}
+
+beforeEach(async () => {
+  await setUp();
+});
+
+afterEach(() => {
+  resetTestEnvironment();
+});
+
+describe('Conversation messages', () => {
+  test('sendMessage sends a user_message and tracks its status', async () => {
+    fakeFetch.onEvent('user_message', { status: 'success', message_id: 'm-1' });
+
+    const handle = await conversation.sendMessage('Hello');
+
+    const [request] = fakeFetch.events('user_message');
+    assert.equal(request.url, 'http://localhost:4000/api/custom-channel/sockets/message');
+    assert.equal(request.body.action, 'sendMessage');
+    assert.equal(request.body.event.socket_id, 'socket-1');
+    assert.deepEqual(request.payload, {
+      type: 'message_create',
+      client_msg_id: handle.clientMsgId,
+      conversation_id: 'conv-1',
+      content: { type: 'text', text: 'Hello' }
+    });
+    assert.equal(handle.status, 'sent');
+    assert.equal(handle.messageId, 'm-1');
+  });
+
+  test('sendMessage uses the given client message ID and rejects empty ones', async () => {
+    const handle = await conversation.sendMessage({ type: 'text', text: 'Hi' }, { clientMsgId: 'client-1' });
+
+    assert.equal(handle.clientMsgId, 'client-1');
+    await assert.rejects(conversation.sendMessage('Hi', { clientMsgId: ' ' }), CaptivateValidationError);
+  });
+
+  test('a failed sendMessage rejects and marks the message as failed', async () => {
+    fakeFetch.onEvent('user_message', reply(401, { error: 'Invalid API key' }));
+    const statuses: string[] = [];
+    conversation.onMessageStatus((update) => statuses.push(update.status));
+
+    await assert.rejects(conversation.sendMessage('Hello'), CaptivateAuthError);
+    assert.deepEqual(statuses, ['failed']);
+  });
+
+  test('a hanging request rejects with CaptivateTimeoutError', async () => {
+    resetTestEnvironment();
+    await setUp({ http: { timeout: 20, maxRetries: 0 } });
+    fakeFetch.onEvent('user_message', hang());
+
+    await assert.rejects(conversation.sendMessage('Hello'), CaptivateTimeoutError);
+  });
+
+  test('echoes and receipts confirm sent messages', async () => {
+    fakeFetch.onEvent('user_message', { status: 'success', message_id: 'm-1' });
+    const confirmations: unknown[] = [];
+    const statuses: string[] = [];
+    conversation.onMessageConfirmed((confirmation) => confirmations.push(confirmation));
+    conversation.onMessageStatus((update) => statuses.push(update.status));
+
+    const handle = await conversation.sendMessage('Hello', { clientMsgId: 'client-1' });
+    socket.receive('user_message', { conversation_id: 'conv-1', client_msg_id: 'client-1', message_id: 'm-1', content: { type: 'text', text: 'Hello' } });
+    socket.receive('message_status', { conversation_id: 'conv-1', message_id: 'm-1', status: 'read' });
+
+    assert.deepEqual(confirmations, [{ clientMsgId: 'client-1', messageId: 'm-1', content: { type: 'text', text: 'Hello' } }]);
+    assert.deepEqual(statuses, ['sent', 'delivered', 'read']);
+    assert.equal(handle.status, 'read');
+  });
+
+  test('message handles edit the sent message', async () => {
+    fakeFetch.onEvent('user_message', { status: 'success', message_id: 'm-1' });
+    const handle = await conversation.sendMessage('Helo');
+
+    await handle.edit('Hello');
+
+    const [edit] = fakeFetch.events('edit_message');
+    assert.equal(edit.payload.message_id, 'm-1');
+    assert.deepEqual(edit.payload.content, { type: 'text', text: 'Hello' });
+  });
+
+  test('editMessage sends edit_message', async () => {
+    await conversation.editMessage('m-1', { type: 'text', text: 'Edited' }, { clientMsgId: 'client-2' });
+
+    assert.deepEqual(fakeFetch.events('edit_message')[0].payload, {
+      type: 'message_create',
+      client_msg_id: 'client-2',
+      conversation_id: 'conv-1',
+      message_id: 'm-1',
+      content: { type: 'text', text: 'Edited' }
+    });
+  });
+
+  test('sendAction sends an action event', async () => {
+    await conversation.sendAction('show_menu', { page: 2 });
+
+    assert.deepEqual(fakeFetch.events('action')[0].payload, { type: 'normal', id: 'show_menu', data: { page: 2 }, conversation_id: 'conv-1' });
+  });
+});
+
+describe('Conversation.onMessage', () => {
+  test('delivers bot and live chat messages once per message ID', () => {
+    const received: unknown[] = [];
+    conversation.onMessage((content, type, details) => received.push([content, type, details]));
+
+    botMessage('Hi', 'm-1');
+    botMessage('Hi', 'm-1');
+    botMessage('I am Sam', 'm-2', 'livechat_message');
+
+    assert.deepEqual(received, [
+      [{ type: 'text', text: 'Hi' }, 'ai_agent', { replayed: false, messageId: 'm-1' }],
+      [{ type: 'text', text: 'I am Sam' }, 'human_agent', { replayed: false, messageId: 'm-2' }]
+    ]);
+  });
+
+  test('ignores events of other conversations', () => {
+    const received: unknown[] = [];
+    conversation.onMessage((content) => received.push(content));
+
+    socket.receive('bot_message', { conversation_id: 'conv-2', content: { type: 'text', text: 'Hi' } });
+    assert.deepEqual(received, []);
+  });
+
+  test('fetches large messages from the 413 message_link', async () => {
+    fakeFetch.onPath('/api/large-message/1', { botMessage: { content: { type: 'text', text: 'Long answer' } } });
+    const received: unknown[] = [];
+    conversation.onMessage((content, type) => received.push([content, type]));
+
+    socket.receive('general_error', { conversation_id: 'conv-1', error_code: 413, message_link: 'http://localhost:4000/api/large-message/1' });
+    await waitFor(() => received.length === 1);
+
+    assert.deepEqual(received, [[{ type: 'text', text: 'Long answer' }, 'ai_agent']]);
+    assert.equal(fakeFetch.calls('/api/large-message/1')[0].headers['x-api-key'], conversation.apiKey);
+  });
+
+  test('reports large messages that cannot be fetched and other general errors', async () => {
+    const received: unknown[] = [];
+    conversation.onMessage((content, type) => received.push([content, type]));
+
+    socket.receive('general_error', { conversation_id: 'conv-1', error_code: 413, message_link: 'http://localhost:4000/api/large-message/missing' });
+    await waitFor(() => received.length === 1);
+    socket.receive('general_error', { conversation_id: 'conv-1', error_code: 500, error_desc: 'Agent unavailable' });
+
+    assert.match(String((received[0] as unknown[])[0]), /^\[Error fetching large message: HTTP request failed: 404/);
+    assert.deepEqual(received[1], ['[Error: Agent unavailable]', 'error']);
+  });
+
+  test('messages() iterates over incoming messages until stopped', async () => {
+    const iterator = conversation.messages();
+    const pending = iterator.next();
+    botMessage('one', 'm-1');
+    botMessage('two', 'm-2');
+
+    assert.deepEqual((await pending).value?.content, { type: 'text', text: 'one' });
+    assert.deepEqual((await iterator.next()).value?.content, { type: 'text', text: 'two' });
+    await iterator.return!();
+    botMessage('three', 'm-3');
+    assert.equal((await iterator.next()).done, true);
+  });
+
+  test('messages() settles concurrent next() calls in order', async () => {
+    const iterator = conversation.messages();
+    const first = iterator.next();
+    const second = iterator.next();
+    const third = iterator.next();
+    botMessage('one', 'm-1');
+    botMessage('two', 'm-2');
+
+    assert.deepEqual((await first).value?.content, { type: 'text', text: 'one' });
+    assert.deepEqual((await second).value?.content, { type: 'text', text: 'two' });
+    await iterator.return!();
+    assert.equal((await third).done, true);
+  });
+
+  test('sendMessageAndWait resolves with the reply', async () => {
+    fakeFetch.onEvent('user_message', () => {
+      botMessage('Pong', 'm-1');
+      return { status: 'success' };
+    });
+
+    const replyMessage = await conversation.sendMessageAndWait('Ping');
+
+    assert.deepEqual(replyMessage.content, { type: 'text', text: 'Pong' });
+    assert.equal(replyMessage.type, 'ai_agent');
+  });
+
+  test('sendMessageAndWait skips replayed messages', async () => {
+    fakeFetch.onEvent('user_message', () => {
+      socket.receive('bot_message', { conversation_id: 'conv-1', message_id: 'm-0', content: { type: 'text', text: 'Old' }, replayed: true });
+      botMessage('Pong', 'm-1');
+      return { status: 'success' };
+    });
+
+    const replyMessage = await conversation.sendMessageAndWait('Ping');
+
+    assert.deepEqual(replyMessage.content, { type: 'text', text: 'Pong' });
+  });
+
+  test('sendMessageAndWait rejects with the typed error of a general_error', async () => {
+    fakeFetch.onEvent('user_message', () => {
+      socket.receive('general_error', { conversation_id: 'conv-1', error_code: 429, error_desc: 'Slow down' });
+      return { status: 'success' };
+    });
+
+    await assert.rejects(conversation.sendMessageAndWait('Ping'), (error: Error) => error.name === 'CaptivateRateLimitError');
+  });
+
+  test('sendMessageAndWait times out without a reply and removes its listeners', async () => {
+    await assert.rejects(conversation.sendMessageAndWait('Ping', { timeout: 10 }), CaptivateTimeoutError);
+
+    const received: unknown[] = [];
+    conversation.onMessage((content) => received.push(content));
+    botMessage('late', 'm-1');
+    assert.equal(received.length, 1);
+  });
+});
+
+describe('Conversation events', () => {
+  test('onActionReceived, onConversationUpdate and onError receive their events', () => {
+    const events: unknown[] = [];
+    conversation.onActionReceived((actions) => events.push(actions));
+    conversation.onConversationUpdate((update) => events.push(update));
+    conversation.onError((error) => events.push([error.errorCode, error.errorDesc, error.error.constructor.name]));
+
+    socket.receive('action', { conversation_id: 'conv-1', actions: [{ id: 'show_menu', data: {} }] });
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'tags_changed', data: { tags: ['vip'] } });
+    socket.receive('general_error', { conversation_id: 'conv-1', error_code: 500, error_desc: 'Boom' });
+
+    assert.deepEqual(events, [
+      [{ id: 'show_menu', data: {} }],
+      { type: 'tags_changed', conversationId: 'conv-1', data: { tags: ['vip'] } },
+      [500, 'Boom', 'CaptivateServerError']
+    ]);
+  });
+
+  test('onMessageStream aggregates streamed messages and delivers the final message', () => {
+    const stream: unknown[] = [];
+    const messages: unknown[] = [];
+    conversation.onMessageStream((event) => stream.push([event.type, event.text]));
+    conversation.onMessage((content) => messages.push(content));
+
+    socket.receive('bot_message_start', { conversation_id: 'conv-1', message_id: 's-1' });
+    socket.receive('bot_message_delta', { conversation_id: 'conv-1', message_id: 's-1', delta: 'Hel' });
+    socket.receive('bot_message_delta', { conversation_id: 'conv-1', message_id: 's-1', delta: 'lo' });
+    socket.receive('bot_message_end', { conversation_id: 'conv-1', message_id: 's-1' });
+
+    assert.deepEqual(stream, [['start', ''], ['delta', 'Hel'], ['delta', 'Hello'], ['end', 'Hello']]);
+    assert.deepEqual(messages, [{ type: 'text', text: 'Hello' }]);
+  });
+
+  test('onTyping reports agent typing until a message or the timeout ends it', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] });
+    const events: unknown[] = [];
+    conversation.onTyping((event) => events.push([event.agentType, event.isTyping]));
+
+    socket.receive('bot_typing', { conversation_id: 'conv-1', is_typing: true });
+    botMessage('Hi', 'm-1');
+    socket.receive('livechat_typing', { conversation_id: 'conv-1', is_typing: true, agent_name: 'Sam' });
+    t.mock.timers.tick(15000);
+
+    assert.deepEqual(events, [
+      ['ai_agent', true],
+      ['ai_agent', false],
+      ['human_agent', true],
+      ['human_agent', false]
+    ]);
+  });
+
+  test('onAgentPresence reports agents joining and leaving', () => {
+    const events: unknown[] = [];
+    conversation.onAgentPresence((event) => events.push([event.status, event.agentName]));
+
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'livechat_joined', data: { agent_name: 'Sam' } });
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'livechat_left', data: {} });
+
+    assert.deepEqual(events, [['joined', 'Sam'], ['left', undefined]]);
+  });
+
+  test('on(), once(), off() and removeAllListeners() manage listeners by name', () => {
+    const received: string[] = [];
+    const listener = () => received.push('on');
+    conversation.on('message', listener);
+    conversation.once('message', () => received.push('once'));
+
+    botMessage('one', 'm-1');
+    botMessage('two', 'm-2');
+    conversation.off('message', listener);
+    botMessage('three', 'm-3');
+    assert.deepEqual(received, ['on', 'once', 'on']);
+
+    conversation.on('actionReceived', () => received.push('action'));
+    conversation.removeAllListeners();
+    socket.receive('action', { conversation_id: 'conv-1', actions: [] });
+    botMessage('four', 'm-4');
+    assert.deepEqual(received, ['on', 'once', 'on']);
+    assert.throws(() => conversation.on('unknown' as any, () => {}), CaptivateValidationError);
+  });
+
+  test('unsubscribe functions remove their listener', () => {
+    const received: unknown[] = [];
+    const unsubscribe = conversation.onActionReceived((actions) => received.push(actions));
+    unsubscribe();
+
+    socket.receive('action', { conversation_id: 'conv-1', actions: [] });
+    assert.deepEqual(received, []);
+  });
+});
+
+describe('Conversation handoff and typing', () => {
+  test('requestHumanAgent and endLivechat move the handoff state', async () => {
+    const changes: unknown[] = [];
+    conversation.onHandoffStateChange((change) => changes.push([change.previousState, change.state]));
+
+    await conversation.requestHumanAgent('billing');
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'livechat_queued', data: { position: 2 } });
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'livechat_assigned', data: { agent_id: 'a-1', agent_name: 'Sam' } });
+    await conversation.endLivechat();
+
+    assert.deepEqual(fakeFetch.events('action').map((request) => [request.payload.id, request.payload.data]), [
+      ['livechat_request', { reason: 'billing' }],
+      ['livechat_end', {}]
+    ]);
+    assert.deepEqual(changes, [['none', 'requested'], ['requested', 'queued'], ['queued', 'assigned'], ['assigned', 'ended']]);
+    assert.equal(conversation.getHandoffState(), 'ended');
+  });
+
+  test('startTyping throttles typing signals and stopTyping ends them', async () => {
+    await conversation.startTyping();
+    await conversation.startTyping();
+    await conversation.stopTyping();
+    await conversation.stopTyping();
+
+    assert.deepEqual(fakeFetch.events('user_typing').map((request) => request.payload.is_typing), [true, false]);
+  });
+
+  test('typing failures are not thrown', async () => {
+    fakeFetch.onEvent('user_typing', reply(500, {}));
+    await conversation.startTyping();
+    await conversation.stopTyping();
+  });
+});
+
+describe('Conversation metadata and lifecycle', () => {
+  test('setMetadata and setPrivateMetadata send metadata updates', async () => {
+    await conversation.setMetadata({ plan: 'pro' });
+    await conversation.setPrivateMetadata({ crm: 42 });
+
+    assert.deepEqual(fakeFetch.events('metadata').map((request) => request.payload.metadata), [{ plan: 'pro' }, { private: { crm: 42 } }]);
+    assert.deepEqual(conversation.serialize().metadata, { plan: 'pro', private: { crm: 42 } });
+    await assert.rejects(conversation.setMetadata(null as any), CaptivateValidationError);
+    await assert.rejects(conversation.setPrivateMetadata('secret' as any), CaptivateValidationError);
+  });
+
+  test('getMetadata returns the metadata of the response', async () => {
+    fakeFetch.onEvent('metadata_request', { metadata: { plan: 'pro' } });
+
+    assert.deepEqual(await conversation.getMetadata(), { plan: 'pro' });
+    assert.deepEqual(fakeFetch.events('metadata_request')[0].payload, { conversation_id: 'conv-1' });
+  });
+
+  test('close, reopen and archive store the status and emit updates', async () => {
+    const updates: string[] = [];
+    conversation.onConversationUpdate((update) => updates.push(update.type));
+
+    await conversation.close();
+    assert.equal(conversation.getStatus(), 'closed');
+    await conversation.archive();
+    assert.equal(conversation.getStatus(), 'archived');
+    await conversation.reopen();
+    assert.equal(conversation.getStatus(), 'open');
+
+    assert.deepEqual(updates, ['conversation_closed', 'conversation_archived', 'conversation_reopened']);
+    assert.deepEqual(fakeFetch.events('metadata').map((request) => request.payload.metadata.status), ['closed', 'archived', 'open']);
+  });
+
+  test('status updates from the server change the status', () => {
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_closed' });
+    assert.equal(conversation.getStatus(), 'closed');
+  });
+
+  test('the echo of a local status change is delivered once', async () => {
+    const updates: unknown[] = [];
+    conversation.onConversationUpdate((update) => updates.push(update.data));
+
+    await conversation.close();
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_closed', data: { status: 'closed' } });
+
+    fakeFetch.onEvent('metadata', () => {
+      socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_reopened', data: { by: 'server' } });
+      return { status: 'success' };
+    });
+    await conversation.reopen();
+
+    assert.deepEqual(updates, [{ status: 'closed' }, { by: 'server' }]);
+    assert.equal(conversation.getStatus(), 'open');
+  });
+
+  test('server status updates are delivered when the echo of a local change never arrives', async (t) => {
+    const updates: unknown[] = [];
+    conversation.onConversationUpdate((update) => updates.push(update.data));
+
+    await conversation.close();
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_reopened', data: { by: 'server' } });
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_closed', data: { by: 'server' } });
+
+    t.mock.timers.enable({ apis: ['Date'], now: Date.now() });
+    await conversation.reopen();
+    t.mock.timers.tick(10000);
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_reopened', data: { by: 'server' } });
+
+    assert.deepEqual(updates, [{ status: 'closed' }, { by: 'server' }, { by: 'server' }, { status: 'open' }, { by: 'server' }]);
+    assert.equal(conversation.getStatus(), 'open');
+  });
+
+  test('server updates with an unchanged status are still delivered', () => {
+    const updates: unknown[] = [];
+    const states: number[] = [];
+    conversation.onConversationUpdate((update) => updates.push(update.data));
+    conversation.onStateChange(() => states.push(1));
+
+    socket.receive('conversation_update', { conversation_id: 'conv-1', type: 'conversation_reopened', data: { reason: 'customer replied' } });
+
+    assert.deepEqual(updates, [{ reason: 'customer replied' }]);
+    assert.deepEqual(states, []);
+  });
+
+  test('submitFeedback validates and sends feedback', async () => {
+    const updates: unknown[] = [];
+    conversation.onConversationUpdate((update) => updates.push(update));
+
+    await conversation.submitFeedback({ rating: 'up', messageId: 'm-1' });
+    await assert.rejects(conversation.submitFeedback({ rating: 'great' as any }), CaptivateValidationError);
+    await assert.rejects(conversation.submitFeedback({ rating: 5, comment: 5 as any }), CaptivateValidationError);
+
+    const [request] = fakeFetch.events('action');
+    assert.equal(request.payload.id, 'submit_feedback');
+    assert.deepEqual(request.payload.data, { rating: 'up', message_id: 'm-1' });
+    assert.deepEqual(updates, [{ type: 'feedback_submitted', conversationId: 'conv-1', data: { rating: 'up', comment: undefined, messageId: 'm-1' } }]);
+  });
+
+  test('setTimeToLive sets the file path TTL and the metadata', async () => {
+    fakeFetch.onPath('/api/path-ttl', { success: true });
+
+    await conversation.setTimeToLive(30);
+
+    const [ttl] = fakeFetch.calls('/api/path-ttl');
+    assert.deepEqual(ttl.body, { path: `${conversation.apiKey}/conv-1`, days: 30 });
+    assert.deepEqual(fakeFetch.events('metadata')[0].payload.metadata, { timeToLive: 30 });
+  });
+
+  test('delete sends delete_conversation', async () => {
+    await conversation.delete();
+    await conversation.delete({ softDelete: false });
+
+    assert.deepEqual(fakeFetch.events('delete_conversation').map((request) => request.payload), [
+      { conversation_id: 'conv-1', softdelete: true },
+      { conversation_id: 'conv-1', softdelete: false }
+    ]);
+  });
+
+  test('getConversationId returns the ID', () => {
+    assert.equal(conversation.getConversationId(), 'conv-1');
+  });
+});
+
+describe('Conversation transcripts', () => {
+  const transcript = [
+    { message_id: 'm-1', from: 'user', content: { type: 'text', text: 'Hi' }, timestamp: 1000 },
+    { message_id: 'm-2', from: 'bot', content: { type: 'text', text: 'Hello' }, timestamp: 2000 },
+    { message_id: 'm-3', from: 'bot', content: { type: 'text', text: 'How can I help?' }, timestamp: 3000 }
+  ];
+
+  test('getTranscript returns the raw transcript', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript });
+
+    assert.deepEqual(await conversation.getTranscript(), transcript);
+    const [request] = fakeFetch.calls('/api/transcript');
+    assert.equal(request.url, 'http://localhost:4000/api/transcript?conversation_id=conv-1');
+    assert.equal(request.headers['x-api-key'], conversation.apiKey);
+  });
+
+  test('getTranscript pages the transcript and validates the limit', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript });
+
+    const page = await conversation.getTranscript({ limit: 2 });
+
+    assert.deepEqual(page.entries.map((entry) => entry.messageId), ['m-2', 'm-3']);
+    assert.equal(page.hasMore, true);
+    assert.equal(page.before, 'm-2');
+    assert.match(fakeFetch.calls('/api/transcript')[0].url, /&limit=2$/);
+    await assert.rejects(conversation.getTranscript({ limit: 0 }), CaptivateValidationError);
+  });
+
+  test('transcriptPages iterates until the first entry', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript });
+    const pages: string[][] = [];
+
+    for await (const page of conversation.transcriptPages({ limit: 2 })) {
+      pages.push(page.entries.map((entry) => entry.messageId!));
+    }
+
+    assert.deepEqual(pages, [['m-2', 'm-3'], ['m-1']]);
+    assert.equal(fakeFetch.calls('/api/transcript').length, 1);
+  });
+
+  test('transcriptPages stops when the server ignores the cursor', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript: transcript.slice(1), has_more: true });
+    const pages: string[][] = [];
+
+    for await (const page of conversation.transcriptPages({ limit: 2 })) {
+      pages.push(page.entries.map((entry) => entry.messageId!));
+    }
+
+    assert.deepEqual(pages, [['m-2', 'm-3']]);
+    assert.equal(fakeFetch.calls('/api/transcript').length, 2);
+  });
+
+  test('getTranscript rejects with the HTTP error of a failed request', async () => {
+    fakeFetch.onPath('/api/transcript', reply(500, { error: 'Boom' }));
+    await assert.rejects(conversation.getTranscript(), CaptivateServerError);
+  });
+
+  test('expired file URLs are refreshed and pushed to the server with editMessage', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const expired = { filename: 'old.pdf', type: 'application/pdf', storage: { fileKey: 'key-old', presignedUrl: 'https://files/old', expiresIn: now - 10 } };
+    const valid = { filename: 'new.pdf', type: 'application/pdf', storage: { fileKey: 'key-new', presignedUrl: 'https://files/new', expiresIn: now + 3600 } };
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [
+        { message_id: 'm-1', from: 'user', content: { type: 'text', text: 'Files' }, files: [expired, valid] },
+        { message_id: 'm-2', from: 'user', content: { type: 'text', text: 'Fresh' }, files: [valid] }
+      ]
+    });
+    fakeFetch.onPath('/api/presigned-url', { success: true, presignedUrl: 'https://files/refreshed' });
+
+    const [first, second] = await conversation.getTranscript() as any[];
+
+    assert.deepEqual(fakeFetch.calls('/api/presigned-url').map((request) => request.body), [{ fileKey: 'key-old', expiresIn: 7200 }]);
+    assert.equal(first.files[0].storage.presignedUrl, 'https://files/refreshed');
+    assert.deepEqual(first.files[1], valid);
+    assert.deepEqual(second.files[0], valid);
+
+    const edits = fakeFetch.events('edit_message');
+    assert.equal(edits.length, 1);
+    assert.equal(edits[0].payload.message_id, 'm-1');
+    assert.equal(edits[0].payload.content.text, 'Files');
+    assert.equal(edits[0].payload.content.files[0].storage.presignedUrl, 'https://files/refreshed');
+  });
+
+  test('files whose URL cannot be refreshed are kept as they are', async () => {
+    const expired = { filename: 'old.pdf', storage: { fileKey: 'key-old', presignedUrl: 'https://files/old', expiresIn: 0 } };
+    fakeFetch.onPath('/api/transcript', { transcript: [{ message_id: 'm-1', from: 'user', files: [expired] }] });
+    fakeFetch.onPath('/api/presigned-url', { success: false, error: 'Unknown key' });
+
+    const [entry] = await conversation.getTranscript() as any[];
+
+    assert.deepEqual(entry.files[0], expired);
+    assert.equal(fakeFetch.events('edit_message').length, 0);
+  });
+
+  test('exportTranscript renders the transcript', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript });
+
+    const markdown = await conversation.exportTranscript({ formatTimestamp: (timestamp) => String(timestamp) });
+
+    assert.match(markdown, /^# Conversation conv-1\n/);
+    assert.match(markdown, /\*\*AI Agent \(2000000\)\*\*\n\nHello/);
+    await assert.rejects(conversation.exportTranscript({ format: 'pdf' }), CaptivateValidationError);
+  });
+
+  test('exported HTML links only http, https and mailto file URLs', async () => {
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [{
+        message_id: 'm-1',
+        from: 'user',
+        files: [
+          { filename: 'report.pdf', url: 'https://files/report.pdf' },
+          { filename: 'contact', url: 'mailto:support@example.com' },
+          { filename: 'script', url: 'javascript:alert(1)' },
+          { filename: 'inline', url: 'data:text/html,<script>alert(1)</script>' }
+        ]
+      }]
+    });
+
+    const html = await conversation.exportTranscript({ format: 'html' });
+
+    assert.match(html, /<li><a href="https:\/\/files\/report.pdf">report.pdf<\/a><\/li>/);
+    assert.match(html, /<li><a href="mailto:support@example.com">contact<\/a><\/li>/);
+    assert.match(html, /<li>script<\/li>/);
+    assert.match(html, /<li>inline<\/li>/);
+    assert.doesNotMatch(html, /javascript:|data:/);
+  });
+
+  test('exported Markdown escapes file names and URLs in links', async () => {
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [{
+        message_id: 'm-1',
+        from: 'user',
+        files: [
+          { filename: 'notes [draft].txt', url: 'https://files/notes (1).txt' },
+          { filename: '[x](https://evil.example)', url: 'javascript:alert(1)' }
+        ]
+      }]
+    });
+
+    const lines = (await conversation.exportTranscript()).split('\n');
+
+    assert.ok(lines.includes('- [notes \\[draft\\].txt](https://files/notes%20%281%29.txt)'));
+    assert.ok(lines.includes('- \\[x\\](https://evil.example)'));
+  });
+});
+
+describe('Conversation state', () => {
+  test('serialize, restore and onStateChange track the client-side state', async () => {
+    const states: unknown[] = [];
+    conversation.onStateChange((state) => states.push(state.lastSeenMessageId));
+
+    botMessage('Hi', 'm-1');
+    const state = conversation.serialize();
+    assert.equal(state.lastSeenMessageId, 'm-1');
+    assert.deepEqual(states, ['m-1']);
+
+    const other = api.getOrCreateConversation('conv-2');
+    assert.throws(() => other.restore(state), CaptivateValidationError);
+    const copy = api.getOrCreateConversation('conv-1');
+    copy.restore({ ...state, status: 'closed', handoffState: 'queued' });
+    assert.equal(copy.getStatus(), 'closed');
+    assert.equal(copy.getHandoffState(), 'queued');
+  });
+
+  test('catchUp replays agent messages sent after the last seen message', async () => {
+    botMessage('seen', 'm-1');
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [
+        { message_id: 'm-1', from: 'bot', content: { type: 'text', text: 'seen' } },
+        { message_id: 'm-2', from: 'user', content: { type: 'text', text: 'mine' } },
+        { message_id: 'm-3', from: 'livechat', content: { type: 'text', text: 'missed' } }
+      ]
+    });
+    const received: unknown[] = [];
+    conversation.onMessage((content, type, details) => received.push([content, type, details?.replayed]));
+
+    await conversation.catchUp();
+
+    assert.deepEqual(received, [[{ type: 'text', text: 'missed' }, 'human_agent', true]]);
+  });
+
+  test('reconnecting re-binds the conversation and catches up on missed messages', async () => {
+    const received: unknown[] = [];
+    conversation.onMessage((content) => received.push(content));
+    fakeFetch.onPath('/api/transcript', {
+      transcript: [{ message_id: 'm-9', from: 'bot', content: { type: 'text', text: 'while away' }, timestamp: Date.now() + 1000 }]
+    });
+
+    socket.drop(1006);
+    await waitFor(() => received.length === 1);
+
+    assert.deepEqual(received, [{ type: 'text', text: 'while away' }]);
+    socket = FakeWebSocket.last;
+    botMessage('live', 'm-10');
+    assert.equal(received.length, 2);
+  });
+
+  test('rebind updates the socket ID used for requests', async () => {
+    conversation.rebind('socket-9');
+    await conversation.sendAction('ping');
+
+    assert.equal(fakeFetch.events('action')[0].body.event.socket_id, 'socket-9');
+  });
+
+  test('restartListeners keeps a single registration', () => {
+    const received: unknown[] = [];
+    conversation.onMessage((content) => received.push(content));
+
+    conversation.restartListeners();
+    conversation.restartListeners();
+    botMessage('Hi', 'm-1');
+
+    assert.equal(received.length, 1);
+  });
+});
+
+describe('Conversation outbox', () => {
+  beforeEach(async () => {
+    resetTestEnvironment();
+    await setUp({ outbox: { storage: new MemoryStorageAdapter() } });
+  });
+
+  test('queues messages while offline and sends them on flush', async () => {
+    fakeFetch.onEvent('user_message', () => {
+      throw new TypeError('fetch failed');
+    }, 1);
+    const changes: string[] = [];
+    conversation.onOutboxChange((item) => changes.push(item.status));
+
+    const handle = await conversation.sendMessage('Hello');
+    assert.equal(handle.status, 'queued');
+    assert.deepEqual(conversation.getOutbox().map((item) => item.id), [handle.clientMsgId]);
+
+    await conversation.flushOutbox();
+    assert.equal(handle.status, 'sent');
+    assert.deepEqual(conversation.getOutbox(), []);
+    assert.deepEqual(changes, ['queued', 'sending', 'queued', 'sending', 'sent']);
+  });
+
+  test('failed items can be retried or discarded', async () => {
+    fakeFetch.onEvent('action', reply(400, { error: 'Bad action' }), 2);
+
+    await assert.rejects(conversation.sendAction('first'));
+    await assert.rejects(conversation.sendAction('second'));
+    const [first, second] = conversation.getOutbox();
+    assert.equal(first.status, 'failed');
+
+    await conversation.retryOutboxItem(first.id);
+    await conversation.discardOutboxItem(second.id);
+
+    assert.deepEqual(conversation.getOutbox(), []);
+    assert.equal(fakeFetch.events('action').length, 3);
+  });
+
+  test('onOutboxChange throws when the outbox is disabled', () => {
+    const plain = new Conversation('conv-plain', api.getDispatcher(), {}, 'key', api.getEndpoints());
+    assert.throws(() => plain.onOutboxChange(() => {}), CaptivateValidationError);
+    assert.deepEqual(plain.getOutbox(), []);
+  });
+});
+
+describe('Conversation cache', () => {
+  beforeEach(async () => {
+    resetTestEnvironment();
+    await setUp({ cache: { storage: new MemoryStorageAdapter() } });
+  });
+
+  test('serves the cached transcript, adds live messages and revalidates in the background', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript: [{ message_id: 'm-1', from: 'bot', content: { type: 'text', text: 'Hi' } }] });
+    const updates: number[] = [];
+    conversation.onTranscriptUpdate((updated) => updates.push(updated.length));
+
+    await conversation.getTranscript();
+    botMessage('Live', 'm-2');
+    await waitFor(() => updates.length === 1);
+    assert.deepEqual(updates, [2]);
+
+    fakeFetch.onPath('/api/transcript', { transcript: [] });
+    const cached = await conversation.getTranscript();
+    assert.equal(cached.length, 2);
+    await waitFor(() => updates.length === 2);
+    assert.deepEqual(updates, [2, 0]);
+  });
+
+  test('delete removes the cached transcript', async () => {
+    fakeFetch.onPath('/api/transcript', { transcript: [{ message_id: 'm-1', from: 'bot', content: { type: 'text', text: 'Hi' } }] });
+    await conversation.getTranscript();
+
+    await conversation.delete();
+    fakeFetch.onPath('/api/transcript', { transcript: [] });
+
+    assert.deepEqual(await conversation.getTranscript(), []);
+    await settle();
+  });
+});
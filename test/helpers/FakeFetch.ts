@@ -0,0 +1,200 @@
+/**
+ * A request received by FakeFetch.
+ */
+export interface FakeRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  /**
+   * Parsed JSON body, the FormData of uploads, or undefined.
+   */
+  body: any;
+  /**
+   * event_type of custom-channel messages.
+   */
+  eventType?: string;
+  /**
+   * event_payload of custom-channel messages.
+   */
+  payload?: any;
+}
+
+/**
+ * A response to send: a full description, a Response, or any other value (sent as a 200 JSON body).
+ */
+export type FakeResponse = { status: number; body?: unknown; headers?: Record<string, string> } | Response | object | string;
+
+export type FakeHandler = (request: FakeRequest) => FakeResponse | Promise<FakeResponse>;
+
+interface FakeRoute {
+  matches: (request: FakeRequest) => boolean;
+  handler: FakeHandler;
+  /**
+   * Remaining uses, or Infinity.
+   */
+  times: number;
+}
+
+const CHANNEL_MESSAGE_PATH = '/api/custom-channel/sockets/message';
+
+/**
+ * Scriptable replacement for the global fetch.
+ * Custom-channel messages are routed by event_type and answered with `{ status: 'success' }` unless a handler
+ * is registered; other URLs are routed by path and answered with 404 when no handler matches.
+ * Aborted requests reject with an AbortError, like the real fetch.
+ */
+export class FakeFetch {
+  public requests: FakeRequest[] = [];
+  private routes: FakeRoute[] = [];
+  private original: typeof fetch | null = null;
+
+  /**
+   * Replaces the global fetch with this fake.
+   */
+  public install(): this {
+    if (!this.original) {
+      this.original = globalThis.fetch;
+      globalThis.fetch = this.fetch as typeof fetch;
+    }
+    return this;
+  }
+
+  /**
+   * Restores the global fetch.
+   */
+  public uninstall(): void {
+    if (this.original) {
+      globalThis.fetch = this.original;
+      this.original = null;
+    }
+  }
+
+  /**
+   * Clears recorded requests and handlers.
+   */
+  public reset(): void {
+    this.requests = [];
+    this.routes = [];
+  }
+
+  /**
+   * Answers custom-channel messages of an event type. Later handlers take precedence.
+   */
+  public onEvent(eventType: string, handler: FakeHandler | FakeResponse, times: number = Infinity): this {
+    return this.addRoute((request) => request.eventType === eventType, handler, times);
+  }
+
+  /**
+   * Answers requests whose URL path starts with `path` (e.g. '/api/transcript'). Later handlers take precedence.
+   */
+  public onPath(path: string, handler: FakeHandler | FakeResponse, times: number = Infinity): this {
+    return this.addRoute((request) => new URL(request.url).pathname.startsWith(path), handler, times);
+  }
+
+  /**
+   * Recorded custom-channel messages, optionally of one event type.
+   */
+  public events(eventType?: string): FakeRequest[] {
+    return this.requests.filter((request) => request.eventType !== undefined && (!eventType || request.eventType === eventType));
+  }
+
+  /**
+   * Recorded requests to a URL path.
+   */
+  public calls(path: string): FakeRequest[] {
+    return this.requests.filter((request) => new URL(request.url).pathname.startsWith(path));
+  }
+
+  private addRoute(matches: FakeRoute['matches'], handler: FakeHandler | FakeResponse, times: number): this {
+    const handle: FakeHandler = typeof handler === 'function' ? handler as FakeHandler : () => handler;
+    this.routes.unshift({ matches, handler: handle, times });
+    return this;
+  }
+
+  private fetch = async (input: string | URL | Request, init: RequestInit = {}): Promise<Response> => {
+    const request = this.record(String(input instanceof Request ? input.url : input), init);
+    const signal = init.signal;
+    if (signal?.aborted) {
+      throw abortError();
+    }
+
+    const route = this.routes.find((candidate) => candidate.times > 0 && candidate.matches(request));
+    let result: Promise<FakeResponse>;
+    if (route) {
+      route.times--;
+      result = Promise.resolve().then(() => route.handler(request));
+    } else if (request.eventType !== undefined) {
+      result = Promise.resolve({ status: 'success' });
+    } else {
+      result = Promise.resolve({ status: 404, body: { error: 'Not found' } });
+    }
+
+    const response = await (signal
+      ? Promise.race([
+        result,
+        new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(abortError()), { once: true })),
+      ])
+      : result);
+    return toResponse(response);
+  };
+
+  private record(url: string, init: RequestInit): FakeRequest {
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      headers[key] = value;
+    });
+    let body: any = init.body;
+    if (typeof init.body === 'string') {
+      try {
+        body = JSON.parse(init.body);
+      } catch {
+        body = init.body;
+      }
+    }
+    const request: FakeRequest = { url, method: init.method || 'GET', headers, body };
+    if (new URL(url).pathname === CHANNEL_MESSAGE_PATH) {
+      request.eventType = body?.event?.event_type;
+      request.payload = body?.event?.event_payload;
+    }
+    this.requests.push(request);
+    return request;
+  }
+}
+
+/**
+ * Builds a response with a status and JSON body, e.g. `reply(503, { error: 'busy' }, { 'retry-after': '0' })`.
+ */
+export function reply(status: number, body?: unknown, headers: Record<string, string> = {}): FakeResponse {
+  return { status, body, headers };
+}
+
+/**
+ * A handler that never answers, for timeout tests.
+ */
+export function hang(): FakeHandler {
+  return () => new Promise<never>(() => {});
+}
+
+function isDescription(value: FakeResponse): value is { status: number; body?: unknown; headers?: Record<string, string> } {
+  return typeof value === 'object' && value !== null && typeof (value as { status?: unknown }).status === 'number';
+}
+
+function toResponse(value: FakeResponse): Response {
+  if (value instanceof Response) {
+    return value;
+  }
+  const { status, body, headers = {} } = isDescription(value) ? value : { status: 200, body: value };
+  if (typeof body === 'string') {
+    return new Response(body, { status, headers: { 'content-type': 'text/plain', ...headers } });
+  }
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
@@ -0,0 +1,129 @@
+/**
+ * What a new FakeWebSocket does on its own: 'accept' opens and sends socket_connected (with IDs socket-1, socket-2, ...),
+ * 'refuse' reports a connection error, and 'manual' waits for the test to call accept(), fail() or drop().
+ */
+export type FakeSocketBehavior = 'accept' | 'refuse' | 'manual';
+
+/**
+ * In-memory stand-in for the WebSocket class. Tests drive the server side: accept the connection
+ * (socket_connected), push events, drop the connection or fail it.
+ */
+export class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+
+  /**
+   * Every socket created since the last reset, oldest first.
+   */
+  static instances: FakeWebSocket[] = [];
+  /**
+   * Behavior of sockets created from now on.
+   */
+  static behavior: FakeSocketBehavior = 'accept';
+
+  static reset(): void {
+    FakeWebSocket.instances = [];
+    FakeWebSocket.behavior = 'accept';
+  }
+
+  /**
+   * The most recently created socket.
+   */
+  static get last(): FakeWebSocket {
+    const socket = FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+    if (!socket) {
+      throw new Error('No FakeWebSocket has been created');
+    }
+    return socket;
+  }
+
+  public readonly url: string;
+  public readyState: number = FakeWebSocket.CONNECTING;
+  /**
+   * Frames sent by the client, as sent.
+   */
+  public readonly sent: string[] = [];
+  /**
+   * Close code and reason passed by the client, if it closed the socket.
+   */
+  public closedWith: { code?: number; reason?: string } | null = null;
+
+  public onopen: ((event: any) => void) | null = null;
+  public onmessage: ((event: any) => void) | null = null;
+  public onclose: ((event: any) => void) | null = null;
+  public onerror: ((event: any) => void) | null = null;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+    const behavior = FakeWebSocket.behavior;
+    const socketId = `socket-${FakeWebSocket.instances.length}`;
+    // Deferred so the client can attach its handlers first, as with a real socket
+    queueMicrotask(() => {
+      if (this.readyState !== FakeWebSocket.CONNECTING) {
+        return;
+      }
+      if (behavior === 'accept') {
+        this.accept(socketId);
+      } else if (behavior === 'refuse') {
+        this.fail();
+      }
+    });
+  }
+
+  public send(data: string): void {
+    if (this.readyState !== FakeWebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.sent.push(data);
+  }
+
+  public close(code?: number, reason?: string): void {
+    if (this.readyState === FakeWebSocket.CLOSED) {
+      return;
+    }
+    this.closedWith = { code, reason };
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code: code ?? 1000, reason: reason ?? '' });
+  }
+
+  /**
+   * Opens the socket and sends socket_connected.
+   */
+  public accept(socketId: string = 'socket-1'): void {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.({});
+    this.receive('socket_connected', { socket_id: socketId });
+  }
+
+  /**
+   * Delivers an event from the server.
+   */
+  public receive(eventType: string, payload: object = {}): void {
+    this.receiveRaw(JSON.stringify({ event: { event_type: eventType, event_payload: payload } }));
+  }
+
+  /**
+   * Delivers a raw frame from the server.
+   */
+  public receiveRaw(data: string): void {
+    this.onmessage?.({ data });
+  }
+
+  /**
+   * Closes the socket from the server side, e.g. 1006 for a lost connection.
+   */
+  public drop(code: number = 1006): void {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason: '' });
+  }
+
+  /**
+   * Reports a socket error, as when the server cannot be reached.
+   */
+  public fail(message: string = 'connect ECONNREFUSED'): void {
+    this.onerror?.({ message });
+  }
+}
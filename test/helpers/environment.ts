@@ -0,0 +1,10 @@
+import { FakeWebSocket } from './FakeWebSocket';
+import { FakeFetch } from './FakeFetch';
+
+// The SDK picks its WebSocket implementation when it is loaded, so this module must run before the SDK is imported
+(globalThis as any).WebSocket = FakeWebSocket;
+
+/**
+ * The fake fetch installed for the test run.
+ */
+export const fakeFetch = new FakeFetch().install();
@@ -0,0 +1,72 @@
+// Installs the fake WebSocket and fetch; must stay the first import
+import { fakeFetch } from './environment';
+import { FakeWebSocket } from './FakeWebSocket';
+import { CaptivateChatAPI, CaptivateChatOptions } from '../../src';
+
+/**
+ * Client options for tests: local endpoints, no heartbeat, no HTTP retries and near-instant reconnects.
+ */
+export const TEST_OPTIONS: CaptivateChatOptions = {
+  environment: 'local',
+  heartbeat: false,
+  http: { maxRetries: 0, retryBaseDelay: 1 },
+  reconnect: { initialDelay: 1, maxDelay: 5, jitter: 0, maxAttempts: 3 },
+};
+
+const apis: CaptivateChatAPI[] = [];
+let apiCount = 0;
+
+/**
+ * Creates and connects an API instance with a unique API key and the test options.
+ * Instances are disposed by resetTestEnvironment().
+ */
+export async function createTestApi(options: CaptivateChatOptions = {}, apiKey: string = `test-key-${++apiCount}`): Promise<CaptivateChatAPI> {
+  const api = await CaptivateChatAPI.create(apiKey, { ...TEST_OPTIONS, ...options });
+  apis.push(api);
+  return api;
+}
+
+/**
+ * Disposes the instances created by createTestApi() and resets the fake WebSocket and fetch.
+ */
+export function resetTestEnvironment(): void {
+  apis.splice(0).forEach((api) => api.dispose());
+  fakeFetch.reset();
+  FakeWebSocket.reset();
+}
+
+/**
+ * Answers conversation_start requests by sending conversation_start_success on the latest socket.
+ */
+export function answerConversationStart(conversationId: string = 'conv-1'): void {
+  fakeFetch.onEvent('conversation_start', () => {
+    FakeWebSocket.last.receive('conversation_start_success', { conversation_id: conversationId });
+    return { status: 'success' };
+  });
+}
+
+/**
+ * Waits until pending promise callbacks and I/O callbacks have run.
+ */
+export function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Waits until `condition` holds, polling between event loop turns. Do not use with mocked timers.
+ */
+export async function waitFor(condition: () => boolean, timeout: number = 1000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 1));
+  }
+}
+
+export { fakeFetch };
+export { FakeWebSocket } from './FakeWebSocket';
+export type { FakeSocketBehavior } from './FakeWebSocket';
+export { FakeFetch, hang, reply } from './FakeFetch';
+export type { FakeHandler, FakeRequest, FakeResponse } from './FakeFetch';
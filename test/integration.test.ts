@@ -0,0 +1,98 @@
+// Runs against MockCaptivateServer over a real WebSocket (ws) and fetch, so it must not import ./helpers
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CaptivateChatAPI, CaptivateChatFileManager } from '../src';
+import { MockCaptivateServer, startMockServer } from '../src/testing';
+
+let server: MockCaptivateServer;
+let api: CaptivateChatAPI;
+
+function nextMessage(conversation: ReturnType<CaptivateChatAPI['getOrCreateConversation']>): Promise<unknown> {
+  return new Promise((resolve) => {
+    const unsubscribe = conversation.onMessage((content) => {
+      unsubscribe();
+      resolve(content);
+    });
+  });
+}
+
+before(async () => {
+  server = await startMockServer({
+    replies: [
+      { content: { type: 'text', text: 'Here are your options' }, actions: [{ id: 'show_options', data: {} }] },
+      { content: { type: 'text', text: 'A very long answer' }, tooLarge: true }
+    ]
+  });
+  api = await CaptivateChatAPI.create('integration-key', server.getClientOptions({ http: { retryBaseDelay: 1 } }));
+});
+
+after(async () => {
+  api.dispose();
+  await server.stop();
+});
+
+describe('CaptivateChatAPI with MockCaptivateServer', () => {
+  test('starts a conversation and exchanges messages', async () => {
+    const conversation = await api.createConversation('user-1', { first_name: 'Ada' }, {}, 'user-first');
+    assert.equal(conversation.getConversationId(), 'conv-1');
+    assert.equal(server.getConversation('conv-1')!.userId, 'user-1');
+
+    const actions = new Promise<unknown>((resolve) => conversation.onActionReceived(resolve));
+    const reply = await conversation.sendMessageAndWait('Show me the options');
+    assert.deepEqual(reply.content, { type: 'text', text: 'Here are your options' });
+    assert.deepEqual(await actions, [{ id: 'show_options', data: {} }]);
+
+    const large = nextMessage(conversation);
+    await conversation.sendMessage('Tell me everything');
+    assert.deepEqual(await large, { type: 'text', text: 'A very long answer' });
+
+    const echo = nextMessage(conversation);
+    await conversation.sendMessage('Ping');
+    assert.deepEqual(await echo, { type: 'text', text: 'Echo: Ping' });
+  });
+
+  test('retries failed requests and lists the user conversations', async () => {
+    server.failNextRequests(1, 503, 'get_user_conversations');
+
+    const { conversations } = await api.getUserConversations('user-1');
+
+    assert.deepEqual(conversations.map((conversation) => conversation.getConversationId()), ['conv-1']);
+    assert.equal(server.getRequests('get_user_conversations').length, 2);
+  });
+
+  test('reads the transcript and uploads files', async () => {
+    const conversation = api.getOrCreateConversation('conv-1');
+
+    const transcript = await conversation.getTranscript();
+    assert.equal(transcript.length, 6);
+
+    const files = await CaptivateChatFileManager.create({
+      file: new File(['Hello file'], 'hello.txt', { type: 'text/plain' }),
+      apiKey: 'integration-key',
+      conversationId: 'conv-1',
+      fileServiceBaseUrl: server.endpoints.fileServiceBaseUrl
+    });
+    assert.equal(files.getFilename(), 'hello.txt');
+    assert.ok(files.getFirstFile()!.storage?.fileKey);
+    assert.match(await files.refreshSecureUrl(60, server.endpoints.fileServiceBaseUrl) ?? '', /^http/);
+  });
+
+  test('reconnects after the server drops the connection', async () => {
+    const reconnected = new Promise<void>((resolve) => {
+      const unsubscribe = api.onConnectionStateChange((state) => {
+        if (state === 'connected') {
+          unsubscribe();
+          resolve();
+        }
+      });
+    });
+
+    server.disconnectAll();
+    await reconnected;
+
+    const conversation = api.getOrCreateConversation('conv-1');
+    const reply = await conversation.sendMessageAndWait('Still there?');
+    assert.deepEqual(reply.content, { type: 'text', text: 'Echo: Still there?' });
+    assert.equal(server.getConnectionCount(), 1);
+  });
+});
@@ -1,25 +1,53 @@
 const path = require('path');
 
-module.exports = {
-    entry: './src/index.ts',
-    output: {
-        path: path.resolve(__dirname, 'dist'),
-        filename: 'captivate-chat-api.js',
-        library: {
-            type: 'umd'
+const tsRules = {
+    rules: [
+        {
+            test: /\.ts$/,
+            use: 'ts-loader',
+            exclude: /node_modules/
+        }
+    ]
+};
+
+module.exports = [
+    {
+        entry: './src/index.ts',
+        output: {
+            path: path.resolve(__dirname, 'dist'),
+            filename: 'captivate-chat-api.js',
+            library: {
+                type: 'umd'
+            },
+            globalObject: 'this'
         },
-        globalObject: 'this'
-    },
-    module: {
-        rules: [
-            {
-                test: /\.ts$/,
-                use: 'ts-loader',
-                exclude: /node_modules/
+        module: tsRules,
+        resolve: {
+            extensions: ['.ts', '.js'],
+            // FileStorageAdapter is Node-only; browsers get empty modules for its 'fs' and 'path' imports
+            fallback: {
+                fs: false,
+                path: false
             }
-        ]
+        }
     },
-    resolve: {
-        extensions: ['.ts', '.js']
+    // Node-only test utilities (mock server), kept out of the browser bundle
+    {
+        entry: './src/testing.ts',
+        target: 'node',
+        output: {
+            path: path.resolve(__dirname, 'dist'),
+            filename: 'testing.js',
+            library: {
+                type: 'commonjs2'
+            }
+        },
+        externals: {
+            ws: 'commonjs ws'
+        },
+        module: tsRules,
+        resolve: {
+            extensions: ['.ts', '.js']
+        }
     }
-};
\ No newline at end of file
+];